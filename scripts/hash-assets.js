@@ -0,0 +1,41 @@
+// Copies every file in assets/ to public/assets/ with a content hash in its name
+// (sprites.svg -> sprites.1a2b3c4d.svg) so the files can be cached forever, then
+// writes src/game/asset-manifest.ts mapping the original names to the hashed URLs.
+//
+// Runs with `npm run assets`, after `npm install` and before dev and build; neither output is checked in.
+
+import { createHash } from "node:crypto";
+import { copyFileSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const sourceDir = path.join(root, "assets");
+const outputDir = path.join(root, "public", "assets");
+const manifestFile = path.join(root, "src", "game", "asset-manifest.ts");
+
+// Start from a clean output folder so stale hashes don't pile up
+rmSync(outputDir, { recursive: true, force: true });
+mkdirSync(outputDir, { recursive: true });
+
+const manifest = {};
+for (const name of readdirSync(sourceDir).sort()) {
+  const contents = readFileSync(path.join(sourceDir, name));
+  const hash = createHash("sha256").update(contents).digest("hex").slice(0, 8);
+  const { name: base, ext } = path.parse(name);
+  const hashedName = `${base}.${hash}${ext}`;
+
+  copyFileSync(path.join(sourceDir, name), path.join(outputDir, hashedName));
+  manifest[name] = `assets/${hashedName}`;
+}
+
+writeFileSync(
+  manifestFile,
+  [
+    "// Generated by scripts/hash-assets.js - do not edit by hand, run `npm run assets` instead",
+    `export const ASSET_MANIFEST = ${JSON.stringify(manifest, null, 2).replace(/"/g, "'")} as const;`,
+    "",
+  ].join("\n")
+);
+
+console.log(`Hashed ${Object.keys(manifest).length} assets into public/assets`);
@@ -0,0 +1,71 @@
+// Import React hooks for the saved progress
+import { useState } from 'react';
+// Import the router link back to the game
+import { Link } from 'react-router-dom';
+// Import date-fns for the unlock dates
+import { format, parseISO } from 'date-fns';
+// Import UI components for the gallery
+import { Button } from './ui/button';
+import { Card } from './ui/card';
+import { Progress } from './ui/progress';
+// Import the achievement catalog and the saved progress
+import { Achievement, ACHIEVEMENT_IDS, ACHIEVEMENTS, AchievementGoal, goalTarget } from '@/game/achievements';
+import { loadAchievements } from '@/lib/achievements';
+import { cn, formatDuration } from '@/lib/utils';
+
+// A goal's progress the way the player thinks of it (time as m:ss, everything else as a count)
+const formatProgress = (goal: AchievementGoal, value: number) => (
+  goal.type === 'survive' ? formatDuration(value) : `${value}`
+);
+
+/**
+ * AchievementsGallery - Every achievement, unlocked or not (the Achievements page)
+ * Locked ones are dimmed and show how close the player is; unlocked ones show when they were earned
+ */
+export default function AchievementsGallery() {
+  const [{ progress, unlocked }] = useState(loadAchievements);
+  const unlockedCount = ACHIEVEMENT_IDS.filter((id) => unlocked[id]).length;
+
+  return (
+    <div className="menu-page">
+      <div className="mx-auto max-w-4xl space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <Button asChild variant="ghost">
+            <Link to="/">← Back to the game</Link>
+          </Button>
+          <h1 className="text-2xl font-bold text-primary">🏅 Achievements</h1>
+          <span className="text-sm text-muted-foreground">
+            {unlockedCount} / {ACHIEVEMENT_IDS.length}
+          </span>
+        </div>
+
+        <div className="grid gap-3 sm:grid-cols-2 md:grid-cols-3">
+          {ACHIEVEMENT_IDS.map((id) => {
+            const { name, icon, description, goal }: Achievement = ACHIEVEMENTS[id];
+            const target = goalTarget(goal);
+            const value = Math.min(progress[id] ?? 0, target);
+            const unlockedAt = unlocked[id];
+
+            return (
+              <Card key={id} className={cn('space-y-2 p-4', !unlockedAt && 'opacity-70')}>
+                <div className="flex items-center gap-3">
+                  <span className={cn('text-3xl', !unlockedAt && 'grayscale')}>{icon}</span>
+                  <div>
+                    <h2 className="font-semibold">{name}</h2>
+                    <p className="text-xs text-muted-foreground">{description}</p>
+                  </div>
+                </div>
+                <Progress value={(value / target) * 100} aria-label={`${name} progress`} />
+                <p className="text-xs text-muted-foreground">
+                  {unlockedAt
+                    ? `✅ Unlocked ${format(parseISO(unlockedAt), 'MMM d, yyyy')}`
+                    : `🔒 ${formatProgress(goal, value)} / ${formatProgress(goal, target)}`}
+                </p>
+              </Card>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
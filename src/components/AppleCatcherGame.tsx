@@ -1,290 +1,392 @@
 // Import React hooks for managing component state and lifecycle
-import { useEffect, useRef, useState } from 'react';
+import { FormEvent, Fragment, useEffect, useRef, useState } from 'react';
 // Import Phaser.js - a powerful 2D game framework for HTML5
 import Phaser from 'phaser';
+// Import the router link to the stats page
+import { Link } from 'react-router-dom';
 // Import UI components for the game interface
 import { Button } from './ui/button';
 import { Card } from './ui/card';
-
-// Interface to define the structure of data shared between React and Phaser
-interface GameData {
-  score: number;        // Current player score
-  gameOver: boolean;    // Whether the game has ended
-  restart: () => void;  // Function to restart the game
-}
-
-/**
- * GameScene class extends Phaser.Scene - this is where all our game logic lives
- * In Phaser, a Scene is like a "screen" or "level" in your game
- * This scene handles the main gameplay: plate movement, apple spawning, collision detection
- */
-class GameScene extends Phaser.Scene {
-  // Game objects - these are the visual elements in our game
-  private plate?: Phaser.Physics.Arcade.Sprite;    // The player-controlled plate at the bottom
-  private apples?: Phaser.Physics.Arcade.Group;    // A group that holds all falling apples
-  
-  // Input handling - Phaser's way of detecting key presses
-  private cursors?: Phaser.Types.Input.Keyboard.CursorKeys;  // Arrow keys for plate movement
-  
-  // Game state variables
-  private score = 0;                  // Current player score
-  private gameOver = false;           // Is the game currently over?
-  private gameData?: GameData;        // Reference to data shared with React component
-  
-  // Timing variables for apple spawning
-  private lastAppleTime = 0;          // When was the last apple created?
-  private appleInterval = 1500;       // How long to wait between apples (in milliseconds)
-
-  /**
-   * Constructor - sets up the scene with a unique key
-   * The key 'GameScene' is used to identify this scene in Phaser's scene manager
-   */
-  constructor() {
-    super({ key: 'GameScene' });
-  }
-
-  /**
-   * init() - Called when the scene starts
-   * This method receives data passed from React and initializes the game state
-   * @param data - GameData object shared between React and Phaser
-   */
-  init(data: GameData) {
-    this.gameData = data;        // Store reference to shared data
-    this.score = 0;              // Reset score to 0
-    this.gameOver = false;       // Game starts in active state
-    this.lastAppleTime = 0;      // Reset apple spawning timer
-  }
-
-  /**
-   * preload() - Called before create(), used to load game assets
-   * In a real game, you'd load images, sounds, etc. here
-   * We're using tiny 1x1 pixel images (base64 encoded) as placeholders
-   * These will be colored using tint to create our plate and apples
-   */
-  preload() {
-    // Load a tiny transparent image that we'll color later
-    // This creates both 'plate' and 'apple' image assets
-    this.load.image('plate', 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==');
-    this.load.image('apple', 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==');
-  }
-
-  /**
-   * create() - Called after preload(), this is where we set up our game world
-   * This method creates all game objects, sets up physics, input, and collisions
-   */
-  create() {
-    // Create the player's plate at the bottom of the screen
-    // this.physics.add.sprite() creates a sprite with physics enabled
-    this.plate = this.physics.add.sprite(400, 550, 'plate');  // x=400 (center), y=550 (near bottom)
-    this.plate.setDisplaySize(100, 20);                       // Make it 100px wide, 20px tall
-    this.plate.setTint(0xF4A460);                            // Color it sandy brown (hex color)
-    this.plate.setCollideWorldBounds(true);                  // Prevent it from moving off-screen
-    this.plate.body!.immovable = true;                       // Other objects bounce off it, but it doesn't move
-
-    // Create a group to hold all our apples
-    // Groups in Phaser are collections of similar objects for easy management
-    this.apples = this.physics.add.group();
-
-    // Set up keyboard input - this creates an object with left/right/up/down arrow key states
-    this.cursors = this.input.keyboard!.createCursorKeys();
-
-    // Set up collision detection between the plate and apples
-    // When they overlap, call the catchApple method
-    this.physics.add.overlap(this.plate, this.apples, this.catchApple, undefined, this);
-
-    // Initialize the game state data
-    this.updateGameState();
-  }
-
-  /**
-   * update() - The game loop! Called every frame (60 times per second)
-   * This is where all the real-time game logic happens
-   * @param time - Current timestamp in milliseconds since the game started
-   */
-  update(time: number) {
-    // If the game is over, stop processing
-    if (this.gameOver) return;
-
-    // Handle plate movement based on arrow key input
-    // setVelocityX() sets the horizontal speed in pixels per second
-    if (this.cursors!.left.isDown) {
-      this.plate!.setVelocityX(-300);  // Move left at 300 pixels/second
-    } else if (this.cursors!.right.isDown) {
-      this.plate!.setVelocityX(300);   // Move right at 300 pixels/second
-    } else {
-      this.plate!.setVelocityX(0);     // Stop moving if no keys are pressed
-    }
-
-    // Apple spawning logic - create new apples at intervals
-    // time is the current game time, we compare it with when we last spawned an apple
-    // For the first apple, spawn immediately if lastAppleTime is 0
-    if (this.lastAppleTime === 0 || time - this.lastAppleTime > this.appleInterval) {
-      this.spawnApple();                // Create a new apple
-      this.lastAppleTime = time;        // Remember when we created this apple
-      
-      // Progressive difficulty - make apples spawn faster as the game continues
-      // But don't go faster than every 500ms (0.5 seconds)
-      if (this.appleInterval > 500) {
-        this.appleInterval -= 10;       // Reduce interval by 10ms each time
-      }
-    }
-
-    // Check if any apples have fallen off the bottom of the screen
-    // If so, the player missed it and the game ends
-    this.apples!.children.entries.forEach((apple) => {
-      const appleSprite = apple as Phaser.Physics.Arcade.Sprite;
-      if (appleSprite.y > 600) {        // 600 is the bottom of our game world
-        this.endGame();                 // End the game immediately
-      }
-    });
-  }
-
-  /**
-   * spawnApple() - Creates a new falling apple at a random horizontal position
-   * This method is called from the update loop at timed intervals
-   */
-  private spawnApple() {
-    // Choose a random x position between 50 and 750 (within screen bounds with padding)
-    const x = Phaser.Math.Between(50, 750);
-    
-    // Create a new apple sprite above the screen (y = -50, so it falls into view)
-    const apple = this.physics.add.sprite(x, -50, 'apple');
-    apple.setDisplaySize(30, 30);                          // Make apple 30x30 pixels
-    apple.setTint(0xFF0000);                              // Color it red (hex color)
-    
-    // Set downward velocity - gets faster as score increases for progressive difficulty
-    apple.setVelocityY(150 + this.score * 2);             // Base speed 150 + (score * 2)
-    
-    // Add the apple to our apples group for collision detection and management
-    this.apples!.add(apple);
-  }
-
-  /**
-   * catchApple() - Called when the plate and an apple overlap (collision detected)
-   * This is the success condition - player caught an apple!
-   * @param plate - The plate sprite (automatically passed by Phaser's collision system)
-   * @param apple - The apple sprite that was caught (automatically passed by Phaser)
-   */
-  private catchApple(plate: any, apple: any) {
-    apple.destroy();                    // Remove the caught apple from the game
-    this.score += 1;                    // Increase the player's score
-    this.updateGameState();             // Sync the score with React component
-    
-    // Add a visual feedback effect - make the plate briefly "bounce" up
-    // This is a tween (smooth animation) that makes the game feel more responsive
-    this.tweens.add({
-      targets: this.plate,              // Animate the plate
-      scaleY: 1.2,                     // Scale it up to 120% height
-      duration: 100,                   // Animation lasts 100 milliseconds
-      yoyo: true,                      // Reverse the animation (scale back down)
-      ease: 'Power2'                   // Use smooth easing for natural feel
-    });
-  }
-
-  /**
-   * endGame() - Called when the player misses an apple (it falls off screen)
-   * This stops all game activity and triggers the game over state
-   */
-  private endGame() {
-    this.gameOver = true;           // Mark the game as over
-    this.physics.pause();           // Stop all physics (movement, collisions)
-    this.updateGameState();         // Sync game over state with React
-  }
-
-  /**
-   * updateGameState() - Syncs the Phaser game state with React component state
-   * This allows the React UI to display current score and game status
-   */
-  private updateGameState() {
-    if (this.gameData) {
-      this.gameData.score = this.score;           // Update score in shared data
-      this.gameData.gameOver = this.gameOver;     // Update game over status
-    }
-  }
-
-  /**
-   * restart() - Resets the game to its initial state for a new game
-   * This method is called when the player clicks "Play Again"
-   */
-  restart() {
-    // Reset all game variables to starting values
-    this.score = 0;                   // Reset score to 0
-    this.gameOver = false;            // Game is active again
-    this.lastAppleTime = 0;           // Reset apple spawning timer
-    this.appleInterval = 1500;        // Reset apple spawn rate to initial speed
-    
-    // Clean up the game world
-    this.apples!.clear(true, true);   // Remove all existing apples from screen
-    
-    // Reset the player's plate to starting position and stop any movement
-    this.plate!.setPosition(400, 550);   // Center plate at bottom
-    this.plate!.setVelocity(0, 0);       // Stop any existing movement
-    
-    // Restart the physics system (which was paused during game over)
-    this.physics.resume();
-    
-    // Sync the new state with React
-    this.updateGameState();
-  }
-}
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { toast } from './ui/sonner';
+import LeaderboardTable from './LeaderboardTable';
+import PowerUpTimers from './PowerUpTimers';
+import DifficultySelector, { DifficultySelection } from './DifficultySelector';
+import ModeSelector from './ModeSelector';
+import SettingsDialog from './SettingsDialog';
+import DailyHistoryDialog from './DailyHistoryDialog';
+import ReplayControls from './ReplayControls';
+import ReplayImport from './ReplayImport';
+import RunStatsSummary from './RunStatsSummary';
+// Import the game scene and the event bus used to talk to it
+import GameScene, { GameSceneData } from '@/game/GameScene';
+import LoadingScene from '@/game/LoadingScene';
+import { GameEventBus, GameEventMap } from '@/game/events';
+import { ActivePowerUp } from '@/game/powerups';
+import { DIFFICULTY_LABELS, DIFFICULTY_PRESETS } from '@/game/difficulty';
+import { DEFAULT_MODE, GAME_MODE_LABELS, GAME_MODES, GameModeId } from '@/game/modes';
+import { controlHint, resolveControlScheme } from '@/game/controls';
+import { unlockAudio } from '@/game/audio';
+import { normalizeSeed, randomSeed } from '@/game/random';
+import { DAILY_DIFFICULTY, DAILY_MODE, dailyChallenge, DailyChallenge } from '@/game/daily';
+import { RUN_MODIFIERS } from '@/game/modifiers';
+import { Replay } from '@/game/replay';
+import { runReplay } from '@/game/engine';
+import { bindingLabel, INPUT_ACTION_LABELS, INPUT_ACTIONS, InputAction, InputActions } from '@/game/input';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { formatDuration } from '@/lib/utils';
+import {
+  addLeaderboardEntry,
+  loadLeaderboard,
+  loadPlayerName,
+  qualifiesForLeaderboard,
+  savePlayerName
+} from '@/lib/leaderboard';
+import { GameSettings, loadSettings, saveSettings } from '@/lib/settings';
+import { dailyStreak, loadDailyHistory, recordDailyRun, startDailyRun } from '@/lib/daily';
+import { recordRunStats } from '@/lib/stats';
+import { downloadReplay } from '@/lib/replay-file';
+import { useGameEvent } from '@/hooks/use-game-events';
+import { useActionPress } from '@/hooks/use-input-actions';
+import { GAMEPAD_BUTTONS, useGamepadButtons } from '@/hooks/use-gamepad-buttons';
+import { useAchievements } from '@/hooks/use-achievements';
 
 /**
  * AppleCatcherGame - The main React component that hosts the Phaser game
  * This component creates the bridge between React and Phaser, handling:
  * - Creating the Phaser game instance
- * - Managing React state that mirrors the game state
- * - Rendering the UI overlay (score, controls, game over modal)
+ * - Managing React state that mirrors the game state (via the event bus)
+ * - Rendering the UI overlay (score, combo, lives, power-ups, controls, pause and game over modals)
  */
 export default function AppleCatcherGame() {
   // React refs - these allow us to directly reference DOM elements and objects
   const gameRef = useRef<HTMLDivElement>(null);        // Reference to the div where Phaser renders
   const phaserGameRef = useRef<Phaser.Game | null>(null);  // Reference to the Phaser game instance
   const sceneRef = useRef<GameScene | null>(null);     // Reference to our custom GameScene
+  const sceneDataRef = useRef<GameSceneData | null>(null);  // What the next game starts with, set when it's started
+  const menuRef = useRef<HTMLDivElement>(null);        // The open menu card (start, pause or game over)
+
+  // Event bus - created once and shared with the scene for the lifetime of the component
+  const [bus] = useState(() => new GameEventBus());
   
   // React state - these trigger re-renders when they change
   const [score, setScore] = useState(0);               // Current score (mirrors Phaser state)
+  const [lives, setLives] = useState(0);               // Lives remaining (mirrors Phaser state)
+  const [timeLeft, setTimeLeft] = useState(0);         // Time left in a timed mode, in ms (mirrors Phaser state)
+  const [combo, setCombo] = useState({ combo: 0, multiplier: 1 }); // Current combo and multiplier
+  const [powerUps, setPowerUps] = useState<ActivePowerUp[]>([]); // Active power-ups and their countdowns
   const [gameOver, setGameOver] = useState(false);     // Is game over? (mirrors Phaser state)
+  const [paused, setPaused] = useState(false);         // Is the game paused? (mirrors Phaser state)
   const [gameStarted, setGameStarted] = useState(false); // Has the player started the game?
 
+  // Player settings (controls, audio, palette...), remembered between visits
+  const [settings, setSettings] = useState<GameSettings>(loadSettings);
+  const [settingsOpen, setSettingsOpen] = useState(false);  // Keyboard shortcuts are off while it's open
+
+  // Input actions - keys, on-screen buttons and the HUD pause button all go through these,
+  // and the scene reads them too. Created once, like the event bus.
+  const [actions] = useState(() => new InputActions(settings.keyBindings));
+
+  const [difficulty, setDifficulty] = useState<DifficultySelection>(() => ({  // Difficulty picked on the start screen
+    id: settings.defaultDifficulty,
+    config: DIFFICULTY_PRESETS[settings.defaultDifficulty]
+  }));
+  const [mode, setMode] = useState<GameModeId>(DEFAULT_MODE);  // Game mode picked on the start screen
+
+  // Daily challenge - set while a daily run (scored or practice) is being played
+  const [dailyRun, setDailyRun] = useState<{ challenge: DailyChallenge; scored: boolean } | null>(null);
+  const [dailyHistory, setDailyHistory] = useState(loadDailyHistory);  // Every day's result, for the calendar
+  const today = dailyChallenge();                        // Worked out on every render, so it follows midnight
+
+  // Replay file opened from the start screen - set while it's being watched
+  const [importedReplay, setImportedReplay] = useState<Replay | null>(null);
+
+  // The daily challenge always uses the same mode and difficulty (and a replay the one it was recorded in)
+  const runMode = importedReplay?.mode ?? (dailyRun ? DAILY_MODE : mode);
+  const modeRules = GAME_MODES[runMode];
+  const startingLives = modeRules.lives ?? 0;            // No hearts in modes without lives
+
+  // Seeds - the same seed always drops the same items in the same places
+  const [seedInput, setSeedInput] = useState('');       // "Play this seed" box on the start screen (empty: random)
+  const [seed, setSeed] = useState('');                 // Seed of the current run
+  const nextSeed = () => normalizeSeed(seedInput) || randomSeed();
+
+  // Control scheme - 'auto' picks on-screen buttons on phones and the keyboard elsewhere
+  const isMobile = useIsMobile();
+  const controlScheme = resolveControlScheme(settings.controlScheme, isMobile);
+  const controlsHint = controlHint(controlScheme, settings.keyBindings);
+
+  // High-score state
+  const [lastRun, setLastRun] = useState<GameEventMap['gameOver'] | null>(null);  // Summary of the run that just ended
+  const [canSaveScore, setCanSaveScore] = useState(false);   // Did the last run make the leaderboard?
+  const [savedRank, setSavedRank] = useState<number | null>(null); // Row of the entry we just saved
+  const [playerName, setPlayerName] = useState(loadPlayerName);   // Name typed into the prompt
+  const [leaderboard, setLeaderboard] = useState(() => loadLeaderboard(mode, difficulty.id));  // Table for the current mode and difficulty
+
+  // Replay state - watching the last run again from the game over card
+  const [watching, setWatching] = useState(false);            // Is a replay playing instead of the game over card?
+  const [replaySpeed, setReplaySpeed] = useState(1);          // Playback speed picked in the replay bar
+  const [replayPlaying, setReplayPlaying] = useState(true);   // False while playback is paused
+  const [replayProgress, setReplayProgress] = useState({ tick: 0, ticks: 0 });  // Playback position (mirrors Phaser state)
+
+  // Read the high-score table again whenever the mode or difficulty changes (saving a score reloads it too)
+  useEffect(() => {
+    setLeaderboard(loadLeaderboard(mode, difficulty.id));
+  }, [mode, difficulty.id]);
+
   // Function to start the game - called when start button is clicked
-  const startGame = () => {
-    setGameStarted(true);         // Mark game as started (this triggers useEffect to create the Phaser game)
+  // @param challenge - Today's daily challenge, when starting one from the Daily Challenge button
+  const startGame = (challenge?: DailyChallenge) => {
+    unlockAudio();                // Browsers only allow audio to start from a click like this one
+
+    // The first daily run of the day is the scored attempt - it counts even if the player quits
+    if (challenge) {
+      const { history, scored } = startDailyRun(challenge.date);
+      setDailyHistory(history);
+      setDailyRun({ challenge, scored });
+    } else {
+      setDailyRun(null);
+    }
+    setImportedReplay(null);
+    setWatching(false);
+
+    const runSeed = challenge?.seed ?? nextSeed();  // The day's seed, the player's seed, or a fresh one
+    const runModeId = challenge ? DAILY_MODE : mode;
+    setSeed(runSeed);
+    sceneDataRef.current = {
+      bus,
+      mode: runModeId,
+      seed: runSeed,
+      difficulty: challenge ? DIFFICULTY_PRESETS[DAILY_DIFFICULTY] : difficulty.config,
+      modifiers: challenge?.modifiers,
+      controlScheme,
+      actions,
+      settings
+    };
+    resetHud(runModeId);
+    // Note: No need to call restart() here since the game will be properly initialized by useEffect
+  };
+
+  // Function to watch a replay file - called by the drop zone on the start screen
+  // The replay is played through by the engine first, to check it really ends on the score it claims
+  const watchImportedReplay = (replay: Replay) => {
+    unlockAudio();
+    const { score } = runReplay(replay);
+    if (score === replay.score) {
+      toast.success('Replay verified', { description: `It plays out to its claimed score of ${replay.score}.` });
+    } else {
+      toast.error("Replay doesn't match its score", {
+        description: `It claims ${replay.score} but plays out to ${score}.`
+      });
+    }
+    setDailyRun(null);
+    setImportedReplay(replay);
+    sceneDataRef.current = { bus, mode: replay.mode, replay, controlScheme, actions, settings };
+    setWatching(true);
+    setReplaySpeed(1);
+    setReplayPlaying(true);
+    setReplayProgress({ tick: 0, ticks: replay.ticks });
+    resetHud(replay.mode);
+  };
+
+  // Put the HUD back to the start of a run and start the game (this triggers useEffect to create the Phaser game)
+  const resetHud = (runModeId: GameModeId) => {
+    const rules = GAME_MODES[runModeId];
+    setGameStarted(true);         // Mark game as started
     setScore(0);                  // Reset score
+    setLives(rules.lives ?? 0);   // Reset lives
+    setTimeLeft(rules.timeLimit ?? 0);  // Reset the clock
+    setCombo({ combo: 0, multiplier: 1 });  // Reset combo
+    setPowerUps([]);              // No power-ups yet
     setGameOver(false);           // Reset game over status
-    // Note: No need to call restart() here since the game will be properly initialized by useEffect
+    setPaused(false);             // A new game never starts paused
+  };
+
+  // Function to restart the game - called when "Play Again" is clicked
+  // The scene publishes 'restarted', 'scoreChanged' and 'livesChanged', which reset the React state below
+  const restartGame = () => {
+    // A chosen seed is replayed, otherwise every run gets a new one
+    // Replaying the daily challenge is always practice - only the first attempt is scored
+    const runSeed = dailyRun?.challenge.seed ?? nextSeed();
+    if (dailyRun) setDailyRun({ ...dailyRun, scored: false });
+    setSeed(runSeed);
+    sceneRef.current?.restart(runSeed);  // Tell Phaser to restart the game
+    setGameStarted(true);            // Keep game in started state for restart
+  };
+
+  // Function to save the last run to the leaderboard - called from the name prompt
+  const saveScore = (event: FormEvent) => {
+    event.preventDefault();
+    if (!lastRun) return;
+
+    const name = playerName.trim() || 'Player';
+    const rank = addLeaderboardEntry(lastRun.mode, difficulty.id, {
+      name,
+      score: lastRun.score,
+      date: new Date().toISOString(),
+      duration: lastRun.duration,
+      maxCombo: lastRun.maxCombo
+    });
+    savePlayerName(name);            // Pre-fill the prompt next time
+    setSavedRank(rank >= 0 ? rank : null);
+    setCanSaveScore(false);
+    setLeaderboard(loadLeaderboard(mode, difficulty.id));
+  };
+
+  // Apply new settings straight away (to a running game too) and remember them
+  const changeSettings = (next: GameSettings) => {
+    setSettings(next);
+    saveSettings(next);
+    sceneRef.current?.applySettings(next);
+
+    // A new default difficulty also becomes the current pick on the start screen
+    if (next.defaultDifficulty !== settings.defaultDifficulty && !gameStarted) {
+      setDifficulty({ id: next.defaultDifficulty, config: DIFFICULTY_PRESETS[next.defaultDifficulty] });
+    }
+  };
+
+  // Copy the last run's seed, e.g. to share it or attach it to a bug report
+  const copySeed = async (runSeed: string) => {
+    try {
+      await navigator.clipboard.writeText(runSeed);
+      toast.success('Seed copied');
+    } catch {
+      toast.error('Could not copy the seed');
+    }
+  };
+
+  // Pause/resume - the scene publishes 'pauseChanged', which shows or hides the pause modal
+  const pauseGame = () => sceneRef.current?.pauseGame();
+  const resumeGame = () => sceneRef.current?.resumeGame();
+
+  // End the run now and keep the score - the scene publishes 'gameOver' as usual
+  const finishRun = () => sceneRef.current?.finishRun();
+
+  // Watch the last run again - the game over card hides until the player exits the replay
+  const watchReplay = () => {
+    if (!lastRun) return;
+    setWatching(true);
+    setReplaySpeed(1);
+    setReplayPlaying(true);
+    sceneRef.current?.startReplay(lastRun.replay);
+  };
+
+  // Playback controls - pausing a replay plays it at speed 0
+  const changeReplaySpeed = (speed: number) => {
+    setReplaySpeed(speed);
+    setReplayPlaying(true);
+    sceneRef.current?.setReplaySpeed(speed);
+  };
+  const toggleReplayPlaying = () => {
+    // Playing a finished replay watches it again from the start
+    if (!replayPlaying && replayProgress.tick >= replayProgress.ticks) sceneRef.current?.seekReplay(0);
+    setReplayPlaying(!replayPlaying);
+    sceneRef.current?.setReplaySpeed(replayPlaying ? 0 : replaySpeed);
   };
+  const seekReplay = (tick: number) => sceneRef.current?.seekReplay(tick);
 
-  // Shared data object - this is passed to Phaser so both sides can communicate
-  const gameData: GameData = {
-    score,                    // Current score
-    gameOver,                 // Current game over state
-    restart: () => {          // Function that both React and Phaser can call to restart
-      sceneRef.current?.restart();   // Tell Phaser to restart the game
-      setScore(0);                   // Reset React state
-      setGameOver(false);            // Reset React state
-      setGameStarted(true);          // Keep game in started state for restart
+  // Back to the game over card (or the start screen, for a replay file)
+  const exitReplay = () => {
+    if (importedReplay) {
+      quitToTitle();
+      return;
     }
+    sceneRef.current?.stopReplay();
+    setWatching(false);
   };
 
-  // useEffect - runs once when component mounts, sets up the Phaser game
+  // Function to leave the current run and go back to the start screen
+  // Setting gameStarted to false runs the useEffect cleanup, which destroys the Phaser game
+  const quitToTitle = () => {
+    setGameStarted(false);
+    setDailyRun(null);
+    setImportedReplay(null);
+    setWatching(false);
+    setGameOver(false);
+    setPaused(false);
+    setCanSaveScore(false);
+  };
+
+  // Mirror the scene's state in React as soon as it changes
+  useGameEvent(bus, 'scoreChanged', ({ score }) => setScore(score));
+  useGameEvent(bus, 'livesChanged', ({ lives }) => setLives(lives));
+  useGameEvent(bus, 'clockChanged', ({ remaining }) => setTimeLeft(remaining));
+  useGameEvent(bus, 'comboChanged', setCombo);
+  useGameEvent(bus, 'powerUpsChanged', ({ active }) => setPowerUps(active));
+  useGameEvent(bus, 'pauseChanged', ({ paused }) => setPaused(paused));
+  useGameEvent(bus, 'gameOver', (run) => {
+    setGameOver(true);
+    setLastRun(run);
+    setSavedRank(null);
+
+    // Every finished run goes into the stats (daily ones too, marked as such)
+    recordRunStats({
+      date: new Date().toISOString(),
+      mode: run.mode,
+      difficulty: dailyRun ? DAILY_DIFFICULTY : difficulty.id,
+      daily: dailyRun !== null,
+      score: run.score,
+      duration: run.duration,
+      caught: run.caught,
+      neededCaught: run.neededCaught,
+      missed: run.missed,
+      maxCombo: run.maxCombo,
+      peakFallSpeed: run.peakFallSpeed,
+      catchHeatmap: run.catchHeatmap
+    });
+
+    // Daily runs go into the daily history instead of the leaderboard (their modifiers make them incomparable)
+    if (dailyRun) {
+      setDailyHistory(recordDailyRun(dailyRun.challenge.date, run, dailyRun.scored));
+      setCanSaveScore(false);
+    } else {
+      setCanSaveScore(qualifiesForLeaderboard(run.mode, difficulty.id, run.score));
+    }
+  });
+  useGameEvent(bus, 'replayProgress', setReplayProgress);
+
+  // Achievements count live runs only - never a replay being watched
+  useAchievements(bus, gameStarted && !watching ? runMode : null);
+
+  useGameEvent(bus, 'replayFinished', ({ score, expectedScore }) => {
+    setReplayPlaying(false);
+    if (score === expectedScore) {
+      toast.success('Replay finished', { description: `Final score ${score}, same as the run` });
+    } else {
+      toast.error('Replay went out of sync', { description: `It scored ${score}, the run scored ${expectedScore}` });
+    }
+  });
+  useGameEvent(bus, 'restarted', () => {
+    setWatching(false);
+    setGameOver(false);
+    setCanSaveScore(false);          // Skipping the name prompt just doesn't save the run
+  });
+
+  // useEffect - runs when a game is started, sets up the Phaser game
   useEffect(() => {
     // Only create the game if we have a container div and haven't created it yet
-    if (gameRef.current && !phaserGameRef.current && gameStarted) {
+    // (startGame() and watchImportedReplay() put what the game starts with in sceneDataRef)
+    const sceneData = sceneDataRef.current;
+    if (gameRef.current && !phaserGameRef.current && gameStarted && sceneData) {
       // Phaser game configuration object
       const config: Phaser.Types.Core.GameConfig = {
         type: Phaser.AUTO,              // Let Phaser choose WebGL or Canvas automatically
-        width: 800,                     // Game world width in pixels
-        height: 600,                    // Game world height in pixels
         parent: gameRef.current,        // HTML element to render the game inside
+        scale: {
+          mode: Phaser.Scale.RESIZE,    // Canvas always fills its parent div - no fixed 800x600
+          width: '100%',
+          height: '100%',
+          autoRound: true               // Whole-pixel sizes keep sprites crisp
+        },
         backgroundColor: '#87CEEB',     // Sky blue background color
-        physics: {
-          default: 'arcade',            // Use Phaser's simple arcade physics system
-          arcade: {
-            gravity: { x: 0, y: 0 },    // No global gravity (we handle apple falling manually)
-            debug: false                // Don't show physics debugging visuals
-          }
+        input: {
+          gamepad: true                 // Enable Phaser's gamepad plugin (see GameScene)
         },
-        scene: GameScene                // Use our custom GameScene class
+        audio: {
+          context: unlockAudio()        // Reuse the context unlocked by the Start Game click
+        },
+        scene: [LoadingScene, GameScene] // Load the assets first, then play
       };
 
       // Create the Phaser game instance
@@ -293,28 +395,112 @@ export default function AppleCatcherGame() {
       // Get a reference to our scene so we can call methods on it
       sceneRef.current = phaserGameRef.current.scene.getScene('GameScene') as GameScene;
       
-      // Start the scene and pass our shared data object to it
-      phaserGameRef.current.scene.start('GameScene', gameData);
-
-      // Set up polling to sync Phaser state with React state
-      // This runs every 100ms to keep React UI updated with game state
-      const interval = setInterval(() => {
-        if (sceneRef.current) {
-          setScore(gameData.score);         // Update React score state
-          setGameOver(gameData.gameOver);   // Update React game over state
-        }
-      }, 100);
+      // Start loading and hand over the event bus and the run's setup (LoadingScene passes them on to GameScene)
+      phaserGameRef.current.scene.start('LoadingScene', sceneData);
 
-      // Cleanup function - runs when component unmounts
+      // Cleanup function - runs when component unmounts (or the player quits to the title screen)
       return () => {
-        clearInterval(interval);              // Stop the polling
         if (phaserGameRef.current) {
           phaserGameRef.current.destroy(true);  // Destroy Phaser game instance
           phaserGameRef.current = null;         // Clear the reference
+          sceneRef.current = null;              // The scene went with it
         }
       };
     }
-  }, [gameStarted]); // Runs when gameStarted changes
+  }, [gameStarted]); // Runs when gameStarted changes (the control scheme and settings are kept in sync separately)
+
+  // Keep the scene's control scheme in sync (e.g. useIsMobile settles after the first render)
+  useEffect(() => {
+    sceneRef.current?.setControlScheme(controlScheme);
+  }, [controlScheme]);
+
+  // Listen to the keyboard for the whole lifetime of the component
+  useEffect(() => actions.attach(), [actions]);
+
+  // Keep the key bindings in sync with the settings
+  useEffect(() => {
+    actions.setBindings(settings.keyBindings);
+  }, [actions, settings.keyBindings]);
+
+  // The settings dialog needs the keyboard to itself (e.g. to capture new key bindings)
+  useEffect(() => {
+    actions.enabled = !settingsOpen;
+    if (settingsOpen) actions.releaseAll();
+  }, [actions, settingsOpen]);
+
+  // Pause and restart actions - the scene handles movement and dash itself
+  // These live in React rather than Phaser because a paused scene stops processing its own input
+  // While watching a replay, the pause action plays and pauses it instead (and restart does nothing)
+  useActionPress(actions, (action: InputAction) => {
+    if (!gameStarted) return;
+    if (watching) {
+      if (action === 'pause') toggleReplayPlaying();
+    } else if (action === 'pause' && !gameOver) {
+      if (paused) {
+        resumeGame();
+      } else {
+        pauseGame();
+      }
+    } else if (action === 'restart') {
+      restartGame();
+    }
+  });
+
+  // Gamepad menus - the d-pad moves between the open menu's buttons and A presses one
+  // (or the menu's main button - Start Game, Resume, Play Again - when none is focused)
+  const menuOpen = !gameStarted || paused || (gameOver && !watching);
+  useGamepadButtons(menuOpen && !settingsOpen, (button) => {
+    const buttons = [...(menuRef.current?.querySelectorAll<HTMLButtonElement>('button:not(:disabled)') ?? [])];
+    const focused = buttons.indexOf(document.activeElement as HTMLButtonElement);
+
+    if (button === GAMEPAD_BUTTONS.up || button === GAMEPAD_BUTTONS.down) {
+      const step = button === GAMEPAD_BUTTONS.down ? 1 : -1;
+      buttons[focused === -1 ? 0 : (focused + step + buttons.length) % buttons.length]?.focus();
+    } else if (button === GAMEPAD_BUTTONS.a && focused !== -1) {
+      buttons[focused].click();
+    } else if (button === GAMEPAD_BUTTONS.a || button === GAMEPAD_BUTTONS.start) {
+      if (!gameStarted) startGame();
+      else if (gameOver) restartGame();
+      else resumeGame();
+    } else if (button === GAMEPAD_BUTTONS.b && paused && !gameOver) {
+      resumeGame();                  // B backs out of the pause menu
+    }
+  });
+
+  // Let the player know when a controller is plugged in or unplugged
+  useEffect(() => {
+    const onConnected = (event: GamepadEvent) => toast.success('🎮 Controller connected', {
+      description: event.gamepad.id
+    });
+    const onDisconnected = (event: GamepadEvent) => toast('🎮 Controller disconnected', {
+      description: event.gamepad.id
+    });
+
+    window.addEventListener('gamepadconnected', onConnected);
+    window.addEventListener('gamepaddisconnected', onDisconnected);
+    return () => {
+      window.removeEventListener('gamepadconnected', onConnected);
+      window.removeEventListener('gamepaddisconnected', onDisconnected);
+    };
+  }, []);
+
+  // Auto-pause - stop the game when the tab is hidden or the window loses focus
+  // The player resumes manually, so they don't come back to a run already in progress
+  useEffect(() => {
+    if (!gameStarted) return;
+
+    const onVisibilityChange = () => {
+      if (document.hidden) sceneRef.current?.pauseGame();
+    };
+    const onBlur = () => sceneRef.current?.pauseGame();
+
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    window.addEventListener('blur', onBlur);
+    return () => {
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      window.removeEventListener('blur', onBlur);
+    };
+  }, [gameStarted]);
 
   // JSX Return - The UI that React renders
   return (
@@ -322,28 +508,107 @@ export default function AppleCatcherGame() {
       {/* Start Screen - only shows when game hasn't started yet */}
       {!gameStarted && !gameOver && (
         <div className="game-over-modal">
-          <Card className="p-8 max-w-md mx-4 text-center">
+          <Card ref={menuRef} className="p-8 max-w-md mx-4 text-center max-h-[90vh] overflow-y-auto">
             <div className="mb-6">
               <div className="text-6xl mb-4">🍎</div>
               <h2 className="text-3xl font-bold text-primary mb-2">Apple Catcher</h2>
               <p className="text-muted-foreground">
                 Catch falling apples with your plate!<br />
-                Use arrow keys to move left and right.
+                Controls: {controlsHint}
+              </p>
+              {/* Current key bindings - changed in the settings */}
+              <dl className="mt-3 grid grid-cols-2 gap-x-4 text-xs text-left">
+                {INPUT_ACTIONS.map((action) => (
+                  <Fragment key={action}>
+                    <dt className="text-muted-foreground text-right">{INPUT_ACTION_LABELS[action]}</dt>
+                    <dd className="font-mono">{bindingLabel(settings.keyBindings, action)}</dd>
+                  </Fragment>
+                ))}
+              </dl>
+              <p className="mt-2 text-xs text-muted-foreground">
+                🎮 Gamepad: left stick or d-pad to move · A dash · B / Start pause · Y restart
               </p>
             </div>
             
             <div className="space-y-4">
+              {/* Classic, Time Attack, Zen or Survival */}
+              <ModeSelector value={mode} onChange={setMode} />
+
+              {/* Difficulty presets and the custom difficulty editor */}
+              <DifficultySelector value={difficulty} onChange={setDifficulty} />
+
+              {/* Play this seed - leave empty for a random run */}
+              <div className="flex items-center gap-2">
+                <Label htmlFor="seed" className="text-muted-foreground">Seed</Label>
+                <Input
+                  id="seed"
+                  value={seedInput}
+                  onChange={(event) => setSeedInput(event.target.value)}
+                  placeholder="Random"
+                  maxLength={32}
+                  className="h-8 font-mono"
+                />
+              </div>
+
+              {/* Controls, audio, palette and other settings */}
+              <SettingsDialog
+                value={settings}
+                onChange={changeSettings}
+                autoScheme={resolveControlScheme('auto', isMobile)}
+                onOpenChange={setSettingsOpen}
+              />
+
               {/* Start button - begins the game */}
               <Button 
-                onClick={startGame} 
+                onClick={() => startGame()} 
                 size="lg" 
                 className="w-full bg-gradient-to-r from-primary to-accent hover:from-primary/90 hover:to-accent/90 transition-all duration-300"
               >
                 Start Game 🎮
               </Button>
               
+              {/* Daily challenge - the same seed and modifiers for everyone today */}
+              <div className="space-y-2 rounded-md border p-3">
+                <Button onClick={() => startGame(today)} variant="secondary" className="w-full">
+                  📅 {dailyHistory[today.date] ? 'Practice Daily Challenge' : 'Daily Challenge'}
+                </Button>
+                <p className="text-xs text-muted-foreground">
+                  {today.modifiers.map((id) => `${RUN_MODIFIERS[id].icon} ${RUN_MODIFIERS[id].name}`).join(' · ')}
+                  <br />
+                  {dailyHistory[today.date]
+                    ? `Today's score: ${dailyHistory[today.date].score} · Best: ${dailyHistory[today.date].best}`
+                    : 'One scored attempt per day - practice as much as you like after it.'}
+                </p>
+                <DailyHistoryDialog history={dailyHistory} />
+              </div>
+
+              {/* Watch a replay file someone shared */}
+              <ReplayImport onImport={watchImportedReplay} />
+
+              {/* Trends across every run played in this browser, and the achievements gallery */}
+              <div className="flex gap-2">
+                <Button asChild variant="outline" className="flex-1">
+                  <Link to="/stats">📊 Stats</Link>
+                </Button>
+                <Button asChild variant="outline" className="flex-1">
+                  <Link to="/achievements">🏅 Achievements</Link>
+                </Button>
+              </div>
+
               <div className="text-xs text-muted-foreground">
-                <p>💡 Don't let any apples hit the ground!</p>
+                <p>💡 Every apple that hits the ground breaks your combo{modeRules.lives !== null && ' and costs a life'}!</p>
+                <p>⭐ Golden apples are worth 5 points, pink hearts give a life back.</p>
+                <p>✨ Blue, purple, silver and turquoise items are power-ups!</p>
+                <p>🔥 Catch apples in a row to build a combo and multiply your points!</p>
+                <p>⚠️ Rotten (green) apples cost a life and black bombs end the run!</p>
+              </div>
+
+              {/* High scores for the selected mode and difficulty */}
+              <div className="pt-2">
+                <h3 className="text-sm font-semibold mb-2">
+                  High Scores - {GAME_MODE_LABELS[mode]} / {DIFFICULTY_LABELS[difficulty.id]}
+                </h3>
+                <LeaderboardTable entries={leaderboard} />
               </div>
             </div>
           </Card>
@@ -353,58 +618,276 @@ export default function AppleCatcherGame() {
       {/* Game UI - only shows when game has started */}
       {gameStarted && (
         <>
-          {/* Top UI bar with score and controls info */}
+          {/* Top UI bar with score, lives, power-ups and controls info */}
           <div className="game-ui">
-            {/* Score display card */}
-            <Card className="score-display">
-              <div className="flex items-center gap-2">
-                <span className="text-2xl">🍎</span>
+            <div className="flex gap-2">
+              {/* Score display card */}
+              <Card className="score-display">
+                <div className="flex items-center gap-2">
+                  <span className="text-2xl">🍎</span>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Score</p>
+                    <p className="text-2xl font-bold text-primary">{score}</p>
+                  </div>
+                </div>
+              </Card>
+
+              {/* Combo display card - the multiplier lights up once it kicks in */}
+              <Card className="score-display">
                 <div>
-                  <p className="text-sm text-muted-foreground">Score</p>
-                  <p className="text-2xl font-bold text-primary">{score}</p>
+                  <p className="text-sm text-muted-foreground">Combo</p>
+                  <p className="text-2xl font-bold">
+                    {combo.combo}
+                    <span className={combo.multiplier > 1 ? 'ml-1 text-accent' : 'ml-1 text-muted-foreground'}>
+                      ×{combo.multiplier}
+                    </span>
+                  </p>
                 </div>
-              </div>
-            </Card>
+              </Card>
+
+              {/* Lives display card - a full heart per remaining life, empty hearts for lost ones */}
+              {modeRules.lives !== null && (
+                <Card className="score-display">
+                  <div>
+                    <p className="text-sm text-muted-foreground">Lives</p>
+                    <p className="text-2xl" aria-label={`${lives} lives left`}>
+                      {'❤️'.repeat(Math.max(lives, 0))}{'🤍'.repeat(Math.max(startingLives - lives, 0))}
+                    </p>
+                  </div>
+                </Card>
+              )}
+
+              {/* Clock card - only in timed modes, turns red for the last ten seconds */}
+              {modeRules.timeLimit !== null && (
+                <Card className="score-display">
+                  <div>
+                    <p className="text-sm text-muted-foreground">Time</p>
+                    <p className={timeLeft <= 10000 ? 'text-2xl font-bold text-destructive' : 'text-2xl font-bold'}>
+                      {formatDuration(timeLeft + 999)}{/* Rounded up - 0:00 only once time is up */}
+                    </p>
+                  </div>
+                </Card>
+              )}
+
+              {/* Active power-up countdowns */}
+              <PowerUpTimers active={powerUps} />
+            </div>
             
-            {/* Controls instruction card */}
-            <Card className="score-display">
-              <div className="text-center">
-                <p className="text-sm text-muted-foreground">Controls</p>
-                <p className="text-xs">← → Arrow Keys</p>
-              </div>
-            </Card>
+            <div className="flex gap-2">
+              {/* Controls instruction card */}
+              <Card className="score-display">
+                <div className="text-center">
+                  <p className="text-sm text-muted-foreground">Controls</p>
+                  <p className="text-xs">{controlsHint}</p>
+                  <p className="text-xs">{bindingLabel(settings.keyBindings, 'dash')} Dash</p>
+                  <p className="text-xs">{bindingLabel(settings.keyBindings, 'pause')} Pause</p>
+                </div>
+              </Card>
+
+              {/* Pause button - same as pressing a pause key */}
+              <Button
+                onClick={() => actions.press('pause')}
+                variant="outline"
+                size="icon"
+                className="score-display h-auto self-stretch"
+                aria-label="Pause game"
+                disabled={paused || gameOver}
+              >
+                ⏸️
+              </Button>
+            </div>
           </div>
 
-          {/* This div is where Phaser renders the actual game */}
-          <div ref={gameRef} className="rounded-lg overflow-hidden shadow-2xl border-4 border-white/20" />
+          {/* This div is where Phaser renders the actual game - it fills the screen and the canvas follows its size */}
+          <div ref={gameRef} className="w-full h-full rounded-lg overflow-hidden shadow-2xl border-4 border-white/20" />
+
+          {/* On-screen left/right buttons - only for the 'buttons' control scheme */}
+          {controlScheme === 'buttons' && (
+            <div className="fixed bottom-4 left-4 right-4 z-10 flex justify-between select-none">
+              {(['moveLeft', 'moveRight'] as const).map((action) => (
+                <Button
+                  key={action}
+                  size="lg"
+                  variant="secondary"
+                  className="h-20 w-28 text-3xl shadow-lg touch-none"
+                  aria-label={INPUT_ACTION_LABELS[action]}
+                  onPointerDown={() => actions.hold(action, 'buttons')}
+                  onPointerUp={() => actions.release(action, 'buttons')}
+                  onPointerLeave={() => actions.release(action, 'buttons')}
+                  onPointerCancel={() => actions.release(action, 'buttons')}
+                  onContextMenu={(event) => event.preventDefault()}
+                >
+                  {action === 'moveLeft' ? '◀' : '▶'}
+                </Button>
+              ))}
+            </div>
+          )}
         </>
       )}
 
-      {/* Game Over Modal - only shows when gameOver is true */}
-      {gameOver && (
+      {/* Pause Modal - only shows while the game is paused */}
+      {paused && !gameOver && (
         <div className="game-over-modal">
-          <Card className="p-8 max-w-md mx-4 text-center">
+          <Card ref={menuRef} className="p-8 max-w-md mx-4 text-center">
+            <div className="mb-6">
+              <div className="text-6xl mb-4">⏸️</div>
+              <h2 className="text-3xl font-bold text-primary mb-2">Paused</h2>
+              <p className="text-muted-foreground">
+                Score: <span className="font-bold text-primary">{score}</span>
+              </p>
+            </div>
+
+            <div className="space-y-4">
+              {/* Resume button - continues the current run */}
+              <Button
+                onClick={resumeGame}
+                size="lg"
+                className="w-full bg-gradient-to-r from-primary to-accent hover:from-primary/90 hover:to-accent/90 transition-all duration-300"
+              >
+                Resume ▶️
+              </Button>
+
+              {/* Restart button - throws this run away and starts a new one */}
+              <Button onClick={restartGame} size="lg" variant="outline" className="w-full">
+                Restart 🔄
+              </Button>
+
+              {/* Finish button - ends the run and keeps the score (how a Zen run ends) */}
+              <Button onClick={finishRun} size="lg" variant="outline" className="w-full">
+                Finish Run 🏁
+              </Button>
+
+              {/* Settings - Escape closes the dialog without resuming */}
+              <SettingsDialog
+                value={settings}
+                onChange={changeSettings}
+                autoScheme={resolveControlScheme('auto', isMobile)}
+                onOpenChange={setSettingsOpen}
+              />
+
+              {/* Quit button - back to the start screen */}
+              <Button onClick={quitToTitle} size="lg" variant="ghost" className="w-full">
+                Quit to Title
+              </Button>
+
+              <div className="text-xs text-muted-foreground">
+                <p>💡 Press {bindingLabel(settings.keyBindings, 'pause')} to resume</p>
+              </div>
+            </div>
+          </Card>
+        </div>
+      )}
+
+      {/* Replay bar - only while watching a replay */}
+      {watching && (
+        <ReplayControls
+          tick={replayProgress.tick}
+          ticks={replayProgress.ticks}
+          speed={replaySpeed}
+          playing={replayPlaying}
+          onTogglePlaying={toggleReplayPlaying}
+          onSpeedChange={changeReplaySpeed}
+          onSeek={seekReplay}
+          onExit={exitReplay}
+        />
+      )}
+
+      {/* Game Over Modal - only shows when gameOver is true (and no replay is playing over it) */}
+      {gameOver && !watching && (
+        <div className="game-over-modal">
+          <Card ref={menuRef} className="p-8 max-w-md mx-4 text-center max-h-[90vh] overflow-y-auto">
             <div className="mb-6">
               <div className="text-6xl mb-4">🍎</div>
               <h2 className="text-3xl font-bold text-primary mb-2">Game Over!</h2>
               <p className="text-muted-foreground">
-                You caught <span className="font-bold text-primary">{score}</span> apple{score !== 1 ? 's' : ''}
+                You scored <span className="font-bold text-primary">{lastRun?.score ?? score}</span> point{(lastRun?.score ?? score) !== 1 ? 's' : ''}
               </p>
+              {lastRun && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  {GAME_MODES[lastRun.mode].icon} {GAME_MODE_LABELS[lastRun.mode]} · {GAME_MODES[lastRun.mode].summary(lastRun)}
+                </p>
+              )}
+              {/* Daily challenge - whether this run counted, today's best and the streak */}
+              {dailyRun && dailyHistory[dailyRun.challenge.date] && (
+                <p className="text-sm mt-2">
+                  📅 Daily challenge{dailyRun.scored ? '' : ' (practice)'} · Today's best{' '}
+                  <span className="font-bold text-primary">{dailyHistory[dailyRun.challenge.date].best}</span>
+                  {' '}· 🔥 {dailyStreak(dailyHistory)}-day streak
+                </p>
+              )}
+              {/* The run's seed - typing it into the start screen plays the same run again */}
+              {lastRun && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Seed <span className="font-mono text-foreground">{lastRun.seed}</span>
+                  <Button variant="link" size="sm" className="h-auto px-2 py-0 text-xs" onClick={() => copySeed(lastRun.seed)}>
+                    Copy
+                  </Button>
+                </p>
+              )}
             </div>
             
             <div className="space-y-4">
-              {/* Restart button - calls the restart function in gameData */}
+              {/* Catches, misses, accuracy and the rest of the run's numbers */}
+              {lastRun && <RunStatsSummary run={lastRun} />}
+
+              {/* Name prompt - only shown when the run made the leaderboard */}
+              {canSaveScore && (
+                <form onSubmit={saveScore} className="space-y-2">
+                  <p className="text-sm font-semibold">🏆 New high score! Enter your name:</p>
+                  <div className="flex gap-2">
+                    <Input
+                      value={playerName}
+                      onChange={(event) => setPlayerName(event.target.value)}
+                      placeholder="Your name"
+                      maxLength={16}
+                      autoFocus
+                    />
+                    <Button type="submit">Save</Button>
+                  </div>
+                </form>
+              )}
+
+
+              {/* Restart button - asks the scene to start a new run */}
               <Button 
-                onClick={gameData.restart} 
+                onClick={restartGame} 
                 size="lg" 
                 className="w-full bg-gradient-to-r from-primary to-accent hover:from-primary/90 hover:to-accent/90 transition-all duration-300"
               >
                 Play Again 🎮
               </Button>
+
+              {/* Replay button - watch the run that just ended */}
+              {lastRun && (
+                <div className="flex gap-2">
+                  <Button onClick={watchReplay} size="lg" variant="outline" className="flex-1">
+                    Watch Replay 🎬
+                  </Button>
+                  {/* Save the replay as a file to share it */}
+                  <Button onClick={() => downloadReplay(lastRun.replay)} size="lg" variant="outline" aria-label="Download replay">
+                    💾
+                  </Button>
+                </div>
+              )}
+
+              {/* Main menu button - back to the start screen (difficulty, high scores) */}
+              <Button onClick={quitToTitle} size="lg" variant="ghost" className="w-full">
+                Main Menu
+              </Button>
               
               <div className="text-xs text-muted-foreground">
                 <p>💡 Tip: The game gets faster as your score increases!</p>
               </div>
+
+              {/* High scores, with the run we just saved highlighted (daily runs have their own history) */}
+              {!dailyRun && (
+                <div className="pt-2">
+                  <h3 className="text-sm font-semibold mb-2">
+                    High Scores - {GAME_MODE_LABELS[mode]} / {DIFFICULTY_LABELS[difficulty.id]}
+                  </h3>
+                  <LeaderboardTable entries={leaderboard} highlight={savedRank ?? undefined} />
+                </div>
+              )}
             </div>
           </Card>
         </div>
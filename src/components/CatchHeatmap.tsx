@@ -0,0 +1,26 @@
+import { cn } from '@/lib/utils';
+
+interface CatchHeatmapProps {
+  columns: number[];             // Catches per column of the game, left to right
+  className?: string;
+}
+
+/**
+ * CatchHeatmap - A strip across the width of the game, darker where more items were caught
+ * Shows at a glance whether the player covers the whole screen or camps in one spot
+ */
+export default function CatchHeatmap({ columns, className }: CatchHeatmapProps) {
+  const most = Math.max(...columns, 1);
+  return (
+    <div className={cn('flex h-6 overflow-hidden rounded-md border', className)} role="img" aria-label="Where items were caught">
+      {columns.map((count, index) => (
+        <div
+          key={index}
+          className="flex-1 bg-primary"
+          style={{ opacity: count === 0 ? 0.05 : 0.15 + 0.85 * (count / most) }}
+          title={`${count} caught`}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+// Import React hooks for the selected day
+import { useState } from 'react';
+// Import date-fns for reading and formatting the history's dates
+import { format, parseISO } from 'date-fns';
+// Import UI components for the history dialog
+import { Button } from './ui/button';
+import { Calendar } from './ui/calendar';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from './ui/dialog';
+// Import the daily challenge rules and the stored results
+import { dailyChallenge, dailyKey } from '@/game/daily';
+import { RUN_MODIFIERS } from '@/game/modifiers';
+import { formatDuration } from '@/lib/utils';
+import { dailyDates, DailyHistory, dailyStreak } from '@/lib/daily';
+
+interface DailyHistoryDialogProps {
+  history: DailyHistory;
+}
+
+// Calendar colors by score, best tier first - a day gets the first tier its score reaches
+const SCORE_TIERS = [
+  { id: 'great', min: 60, label: '60+', className: 'bg-green-500 text-white hover:bg-green-600' },
+  { id: 'good', min: 25, label: '25+', className: 'bg-lime-300 text-lime-950 hover:bg-lime-400' },
+  { id: 'fair', min: 10, label: '10+', className: 'bg-yellow-200 text-yellow-950 hover:bg-yellow-300' },
+  { id: 'low', min: 0, label: '0+', className: 'bg-orange-200 text-orange-950 hover:bg-orange-300' }
+];
+
+// Which tier a score falls in
+const tierFor = (score: number) => SCORE_TIERS.find(({ min }) => score >= min)!.id;
+
+/**
+ * DailyHistoryDialog - A "History" button that opens a calendar of past daily challenges
+ * Every day played is colored by its scored attempt; picking a day shows its details
+ */
+export default function DailyHistoryDialog({ history }: DailyHistoryDialogProps) {
+  const [selected, setSelected] = useState<Date | undefined>();
+  const selectedKey = selected ? dailyKey(selected) : undefined;
+  const result = selectedKey ? history[selectedKey] : undefined;
+  const playedDates = Object.keys(history).map((date) => parseISO(date));
+
+  // One calendar modifier per tier, holding the days whose score falls in it
+  const modifiers = Object.fromEntries(SCORE_TIERS.map(({ id }) => [
+    id,
+    dailyDates(history, (day) => tierFor(day.score) === id)
+  ]));
+  const modifiersClassNames = Object.fromEntries(SCORE_TIERS.map(({ id, className }) => [id, className]));
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="w-full">
+          📅 History
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Daily Challenge History</DialogTitle>
+          <DialogDescription>
+            {playedDates.length} day{playedDates.length !== 1 ? 's' : ''} played · 🔥 {dailyStreak(history)}-day streak
+          </DialogDescription>
+        </DialogHeader>
+
+        <Calendar
+          mode="single"
+          selected={selected}
+          onSelect={setSelected}
+          modifiers={modifiers}
+          modifiersClassNames={modifiersClassNames}
+          disabled={{ after: new Date() }}
+          className="mx-auto"
+        />
+
+        {/* Color key */}
+        <div className="flex justify-center gap-2 text-xs">
+          {SCORE_TIERS.map(({ id, label, className }) => (
+            <span key={id} className={`rounded px-2 py-0.5 ${className}`}>{label}</span>
+          ))}
+        </div>
+
+        {/* Details of the picked day */}
+        {selected && (
+          <div className="rounded-md border p-3 text-sm">
+            <p className="font-semibold">{format(selected, 'EEEE, MMMM d')}</p>
+            {result ? (
+              <>
+                <p>
+                  Score <span className="font-bold text-primary">{result.score}</span>
+                  {!result.completed && ' (quit early)'} · Best {result.best}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Time {formatDuration(result.duration)} · Max combo {result.maxCombo} · {result.practiceRuns} practice run{result.practiceRuns !== 1 ? 's' : ''}
+                </p>
+              </>
+            ) : (
+              <p className="text-muted-foreground">Not played.</p>
+            )}
+            <p className="text-xs text-muted-foreground mt-1">
+              {dailyChallenge(selected).modifiers.map((id) => `${RUN_MODIFIERS[id].icon} ${RUN_MODIFIERS[id].name}`).join(' · ')}
+            </p>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,117 @@
+// Import UI components for the difficulty picker
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Slider } from './ui/slider';
+import { Switch } from './ui/switch';
+// Import the difficulty presets and their types
+import {
+  DIFFICULTY_LABELS,
+  DIFFICULTY_PRESETS,
+  DifficultyConfig,
+  DifficultyId,
+  DifficultyPresetId
+} from '@/game/difficulty';
+
+// The difficulty the player picked: which preset (or 'custom') and the resulting values
+export interface DifficultySelection {
+  id: DifficultyId;
+  config: DifficultyConfig;
+}
+
+interface DifficultySelectorProps {
+  value: DifficultySelection;
+  onChange: (value: DifficultySelection) => void;
+}
+
+// One slider per tunable value in the custom panel
+const CUSTOM_FIELDS: {
+  key: keyof DifficultyConfig;
+  label: string;
+  unit: string;
+  min: number;
+  max: number;
+  step: number;
+}[] = [
+  { key: 'startInterval', label: 'Starting spawn interval', unit: 'ms', min: 500, max: 3000, step: 50 },
+  { key: 'rampRate', label: 'Interval ramp per spawn', unit: 'ms', min: 0, max: 50, step: 1 },
+  { key: 'minInterval', label: 'Spawn interval floor', unit: 'ms', min: 200, max: 1500, step: 50 },
+  { key: 'baseFallSpeed', label: 'Base fall speed', unit: 'px/s', min: 50, max: 400, step: 10 },
+  { key: 'speedPerPoint', label: 'Fall speed per point', unit: 'px/s', min: 0, max: 10, step: 0.5 },
+  { key: 'plateSpeed', label: 'Plate speed', unit: 'px/s', min: 100, max: 800, step: 20 },
+  { key: 'plateWidth', label: 'Plate width', unit: 'px', min: 40, max: 250, step: 10 }
+];
+
+const PRESET_IDS = Object.keys(DIFFICULTY_PRESETS) as DifficultyPresetId[];
+
+/**
+ * DifficultySelector - Start screen picker for Easy/Normal/Hard/Insane
+ * The "Customize" switch opens a panel of sliders, starting from the
+ * current preset's values, for building a custom difficulty
+ */
+export default function DifficultySelector({ value, onChange }: DifficultySelectorProps) {
+  const custom = value.id === 'custom';
+
+  // Switching customization off falls back to the Normal preset
+  const setCustom = (enabled: boolean) => {
+    onChange(enabled
+      ? { id: 'custom', config: { ...value.config } }
+      : { id: 'normal', config: DIFFICULTY_PRESETS.normal });
+  };
+
+  // Update one value in the custom config
+  // The interval floor can't be above the starting interval (spawns would slow down as the run goes on),
+  // so moving either slider past the other drags it along
+  const setField = (key: keyof DifficultyConfig, fieldValue: number) => {
+    const config = { ...value.config, [key]: fieldValue };
+    if (key === 'startInterval') config.minInterval = Math.min(config.minInterval, fieldValue);
+    if (key === 'minInterval') config.startInterval = Math.max(config.startInterval, fieldValue);
+    onChange({ id: 'custom', config });
+  };
+
+  return (
+    <div className="space-y-3 text-left">
+      <Label className="block text-center text-muted-foreground">Difficulty</Label>
+
+      {/* Preset buttons */}
+      <div className="grid grid-cols-4 gap-2">
+        {PRESET_IDS.map((id) => (
+          <Button
+            key={id}
+            size="sm"
+            variant={value.id === id ? 'default' : 'outline'}
+            onClick={() => onChange({ id, config: DIFFICULTY_PRESETS[id] })}
+          >
+            {DIFFICULTY_LABELS[id]}
+          </Button>
+        ))}
+      </div>
+
+      {/* Custom difficulty toggle */}
+      <div className="flex items-center justify-between">
+        <Label htmlFor="custom-difficulty">Customize</Label>
+        <Switch id="custom-difficulty" checked={custom} onCheckedChange={setCustom} />
+      </div>
+
+      {/* Custom difficulty editor - only shown while customizing */}
+      {custom && (
+        <div className="space-y-3 rounded-md border p-3">
+          {CUSTOM_FIELDS.map(({ key, label, unit, min, max, step }) => (
+            <div key={key} className="space-y-1">
+              <div className="flex justify-between text-xs">
+                <span>{label}</span>
+                <span className="font-mono text-muted-foreground">{value.config[key]} {unit}</span>
+              </div>
+              <Slider
+                min={min}
+                max={max}
+                step={step}
+                value={[value.config[key]]}
+                onValueChange={([fieldValue]) => setField(key, fieldValue)}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+// Import React hooks for the key capture state
+import { useCallback, useEffect, useState } from 'react';
+// Import UI components for the binding rows
+import { Button } from './ui/button';
+// Import the input actions and key binding helpers
+import {
+  findConflicts,
+  INPUT_ACTION_LABELS,
+  INPUT_ACTIONS,
+  InputAction,
+  keyName,
+  KeyBindings,
+  MAX_KEYS_PER_ACTION
+} from '@/game/input';
+
+interface KeyBindingsEditorProps {
+  value: KeyBindings;
+  onChange: (value: KeyBindings) => void;
+}
+
+// The slot waiting for a key press: which action, and main (0) or alternate (1) key
+interface CaptureSlot {
+  action: InputAction;
+  slot: number;
+}
+
+const SLOTS = Array.from({ length: MAX_KEYS_PER_ACTION }, (_, slot) => slot);
+
+/**
+ * KeyBindingsEditor - One row per action with a main and an alternate key
+ * Click a key to rebind it: the next key pressed takes its place. Keys bound
+ * to more than one action are shown in red (the settings can't be saved until
+ * the conflict is fixed)
+ */
+export default function KeyBindingsEditor({ value, onChange }: KeyBindingsEditorProps) {
+  const [capturing, setCapturing] = useState<CaptureSlot | null>(null);
+  const conflicts = findConflicts(value);
+
+  // Put a key in a slot (or empty the slot when code is null)
+  const setKey = useCallback(({ action, slot }: CaptureSlot, code: string | null) => {
+    const keys = [...value[action]];
+    if (code === null) {
+      keys.splice(slot, 1);
+    } else {
+      keys[slot] = code;
+    }
+    // No gaps, and no key listed twice for the same action
+    onChange({ ...value, [action]: [...new Set(keys.filter(Boolean))] });
+  }, [value, onChange]);
+
+  // While capturing, the next key press is the new binding - listening on the window
+  // in the capture phase gets it before the dialog (Escape) or the game sees it
+  useEffect(() => {
+    if (!capturing) return;
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      setKey(capturing, event.code);
+      setCapturing(null);
+    };
+
+    window.addEventListener('keydown', onKeyDown, true);
+    return () => window.removeEventListener('keydown', onKeyDown, true);
+  }, [capturing, setKey]);
+
+  return (
+    <div className="space-y-2">
+      {INPUT_ACTIONS.map((action) => {
+        // Other actions sharing a key with this one
+        const clashes = value[action]
+          .filter((code) => conflicts.has(code))
+          .map((code) => `${keyName(code)} is also bound to ${conflicts.get(code)!
+            .filter((other) => other !== action)
+            .map((other) => INPUT_ACTION_LABELS[other])
+            .join(', ')}`);
+
+        return (
+          <div key={action} className="space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm">{INPUT_ACTION_LABELS[action]}</span>
+              <div className="flex gap-1">
+                {SLOTS.map((slot) => {
+                  const code = value[action][slot];
+                  const isCapturing = capturing?.action === action && capturing.slot === slot;
+                  return (
+                    <div key={slot} className="flex">
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant={code && conflicts.has(code) ? 'destructive' : isCapturing ? 'default' : 'outline'}
+                        className="w-24"
+                        // A slot after an empty one would leave a gap, so it's filled first
+                        disabled={slot > value[action].length}
+                        onClick={() => setCapturing({ action, slot })}
+                        onBlur={() => setCapturing(null)}
+                        aria-label={`${INPUT_ACTION_LABELS[action]} key ${slot + 1}`}
+                      >
+                        {isCapturing ? 'Press a key…' : code ? keyName(code) : '—'}
+                      </Button>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        className="px-2"
+                        disabled={!code || isCapturing}
+                        onClick={() => setKey({ action, slot }, null)}
+                        aria-label={`Clear ${INPUT_ACTION_LABELS[action]} key ${slot + 1}`}
+                      >
+                        ×
+                      </Button>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+            {clashes.map((message) => (
+              <p key={message} className="text-xs font-medium text-destructive">{message}</p>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+// Import date-fns for friendly date formatting
+import { format } from 'date-fns';
+// Import the table UI components
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { cn, formatDuration } from '@/lib/utils';
+import type { LeaderboardEntry } from '@/lib/leaderboard';
+
+interface LeaderboardTableProps {
+  entries: LeaderboardEntry[];   // Entries to show, best score first
+  highlight?: number;            // Index of the row to highlight (the run that was just saved)
+}
+
+/**
+ * LeaderboardTable - The local high-score table
+ * Used on the start screen and in the game over modal
+ */
+export default function LeaderboardTable({ entries, highlight }: LeaderboardTableProps) {
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground">No high scores yet - be the first!</p>;
+  }
+
+  return (
+    <Table className="text-xs">
+      <TableHeader>
+        <TableRow>
+          <TableHead className="h-8 px-2">#</TableHead>
+          <TableHead className="h-8 px-2">Name</TableHead>
+          <TableHead className="h-8 px-2 text-right">Score</TableHead>
+          <TableHead className="h-8 px-2 text-right">Combo</TableHead>
+          <TableHead className="h-8 px-2 text-right">Time</TableHead>
+          <TableHead className="h-8 px-2 text-right">Date</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {entries.map((entry, index) => (
+          <TableRow
+            key={`${entry.date}-${index}`}
+            className={cn(index === highlight && 'bg-primary/10 font-bold')}
+          >
+            <TableCell className="p-2">{index + 1}</TableCell>
+            <TableCell className="p-2 max-w-[8rem] truncate text-left">{entry.name}</TableCell>
+            <TableCell className="p-2 text-right">{entry.score}</TableCell>
+            <TableCell className="p-2 text-right">{entry.maxCombo}</TableCell>
+            <TableCell className="p-2 text-right">{formatDuration(entry.duration)}</TableCell>
+            <TableCell className="p-2 text-right">{format(new Date(entry.date), 'MMM d')}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,38 @@
+// Import UI components for the mode picker
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+// Import the game modes and their rules
+import { GAME_MODE_IDS, GAME_MODES, GameModeId } from '@/game/modes';
+
+interface ModeSelectorProps {
+  value: GameModeId;
+  onChange: (value: GameModeId) => void;
+}
+
+/**
+ * ModeSelector - Start screen picker for Classic/Time Attack/Zen/Survival
+ * Shows the selected mode's rules underneath the buttons
+ */
+export default function ModeSelector({ value, onChange }: ModeSelectorProps) {
+  return (
+    <div className="space-y-3 text-left">
+      <Label className="block text-center text-muted-foreground">Mode</Label>
+
+      {/* One button per mode */}
+      <div className="grid grid-cols-2 gap-2">
+        {GAME_MODE_IDS.map((id) => (
+          <Button
+            key={id}
+            size="sm"
+            variant={value === id ? 'default' : 'outline'}
+            onClick={() => onChange(id)}
+          >
+            {GAME_MODES[id].icon} {GAME_MODES[id].name}
+          </Button>
+        ))}
+      </div>
+
+      <p className="text-xs text-center text-muted-foreground">{GAME_MODES[value].description}</p>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+// Import UI components for the HUD cards
+import { Card } from './ui/card';
+import { Progress } from './ui/progress';
+// Import power-up metadata (names, icons) and the snapshot type published by the scene
+import { ActivePowerUp, POWER_UPS } from '@/game/powerups';
+
+interface PowerUpTimersProps {
+  active: ActivePowerUp[];    // Active power-ups, as published on the 'powerUpsChanged' event
+}
+
+/**
+ * PowerUpTimers - One small HUD card per active power-up
+ * Shows the power-up's icon, its stack count and a countdown bar
+ * that empties as the power-up runs out
+ */
+export default function PowerUpTimers({ active }: PowerUpTimersProps) {
+  return (
+    <>
+      {active.map(({ id, stacks, remaining, duration }) => (
+        <Card key={id} className="score-display w-28">
+          <div className="flex items-center gap-2">
+            <span className="text-2xl">{POWER_UPS[id].icon}</span>
+            <div className="flex-1">
+              <p className="text-xs text-muted-foreground">
+                {POWER_UPS[id].name}{stacks > 1 ? ` ×${stacks}` : ''}
+              </p>
+              <p className="text-sm font-bold">{Math.ceil(remaining / 1000)}s</p>
+            </div>
+          </div>
+          {/* Countdown bar - full when collected, empty when about to expire */}
+          <Progress value={(remaining / duration) * 100} className="h-1.5 mt-1" />
+        </Card>
+      ))}
+    </>
+  );
+}
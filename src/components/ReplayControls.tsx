@@ -0,0 +1,84 @@
+// Import UI components for the playback bar
+import { Button } from './ui/button';
+import { Card } from './ui/card';
+import { Slider } from './ui/slider';
+// Import the tick length, to show playback time, and the duration formatter
+import { TICK_MS } from '@/game/replay';
+import { formatDuration } from '@/lib/utils';
+
+// Playback speeds offered by the speed buttons
+const REPLAY_SPEEDS = [0.5, 1, 2, 4];
+
+interface ReplayControlsProps {
+  tick: number;                 // Current playback position (in ticks)
+  ticks: number;                // Length of the replay (in ticks)
+  speed: number;                // Playback speed picked with the speed buttons
+  playing: boolean;             // Is playback running? (paused plays at speed 0)
+  onTogglePlaying: () => void;
+  onSpeedChange: (speed: number) => void;
+  onSeek: (tick: number) => void;
+  onExit: () => void;
+}
+
+/**
+ * ReplayControls - Playback bar shown while watching a replay
+ * Play/pause, speed buttons, a scrubber to jump anywhere in the run and an exit button
+ */
+export default function ReplayControls({
+  tick,
+  ticks,
+  speed,
+  playing,
+  onTogglePlaying,
+  onSpeedChange,
+  onSeek,
+  onExit
+}: ReplayControlsProps) {
+  return (
+    <Card className="fixed bottom-4 left-1/2 z-10 w-[min(36rem,calc(100%-2rem))] -translate-x-1/2 p-3 shadow-lg">
+      <div className="flex items-center gap-3">
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={onTogglePlaying}
+          aria-label={playing ? 'Pause replay' : 'Play replay'}
+        >
+          {playing ? '⏸️' : '▶️'}
+        </Button>
+
+        {/* Scrubber - dragging it seeks the replay */}
+        <Slider
+          value={[tick]}
+          max={Math.max(ticks, 1)}
+          step={1}
+          onValueChange={([value]) => onSeek(value)}
+          aria-label="Replay position"
+          className="flex-1"
+        />
+
+        <span className="text-xs font-mono text-muted-foreground whitespace-nowrap">
+          {formatDuration(tick * TICK_MS)} / {formatDuration(ticks * TICK_MS)}
+        </span>
+      </div>
+
+      <div className="mt-2 flex items-center justify-between gap-2">
+        <div className="flex gap-1">
+          {REPLAY_SPEEDS.map((option) => (
+            <Button
+              key={option}
+              size="sm"
+              variant={option === speed ? 'default' : 'ghost'}
+              className="h-7 px-2 text-xs"
+              onClick={() => onSpeedChange(option)}
+            >
+              {option}×
+            </Button>
+          ))}
+        </div>
+        <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={onExit}>
+          Exit Replay ✖️
+        </Button>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,78 @@
+// Import React hooks for the drag highlight and the hidden file input
+import { ChangeEvent, DragEvent, useRef, useState } from 'react';
+// Import UI components for the drop zone
+import { Button } from './ui/button';
+import { toast } from './ui/sonner';
+// Import the replay type and the file reader (validation and error messages)
+import { Replay } from '@/game/replay';
+import { parseReplay } from '@/lib/replay-file';
+
+interface ReplayImportProps {
+  onImport: (replay: Replay) => void;   // Called with a replay that passed validation
+}
+
+/**
+ * ReplayImport - Drop zone on the start screen for watching a replay file
+ * Accepts a file dropped on it or picked with the button; problems with the file show up as a toast
+ */
+export default function ReplayImport({ onImport }: ReplayImportProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState(false);   // Highlight while a file is dragged over
+
+  // Read and check a file, then hand the replay over
+  const importFile = async (file: File | undefined) => {
+    if (!file) return;
+    let text: string;
+    try {
+      text = await file.text();
+    } catch {
+      // The file went away or can't be read (moved, deleted, no permission)
+      toast.error(`Couldn't open ${file.name}`, { description: "The file couldn't be read." });
+      return;
+    }
+
+    const result = parseReplay(text);
+    if ('error' in result) {
+      toast.error(`Couldn't open ${file.name}`, { description: result.error });
+    } else {
+      onImport(result.replay);
+    }
+  };
+
+  const onDrop = (event: DragEvent) => {
+    event.preventDefault();
+    setDragging(false);
+    importFile(event.dataTransfer.files[0]);
+  };
+
+  const onFileChosen = (event: ChangeEvent<HTMLInputElement>) => {
+    importFile(event.target.files?.[0]);
+    event.target.value = '';           // Picking the same file again still fires a change
+  };
+
+  return (
+    <div
+      onDragOver={(event) => {
+        event.preventDefault();        // Allows dropping
+        setDragging(true);
+      }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={onDrop}
+      className={`rounded-md border-2 border-dashed p-3 text-xs text-muted-foreground transition-colors ${
+        dragging ? 'border-primary bg-primary/10' : 'border-muted'
+      }`}
+    >
+      <p>🎬 Drop a replay file here to watch it</p>
+      <Button variant="link" size="sm" className="h-auto px-0 py-0 text-xs" onClick={() => inputRef.current?.click()}>
+        or choose a file
+      </Button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={onFileChosen}
+      />
+    </div>
+  );
+}
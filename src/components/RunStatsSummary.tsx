@@ -0,0 +1,43 @@
+// Import the heatmap strip for where the catches happened
+import CatchHeatmap from './CatchHeatmap';
+// Import the run summary type and the stat helpers
+import type { RunSummary } from '@/game/modes';
+import { runAccuracy } from '@/lib/stats';
+import { formatDuration } from '@/lib/utils';
+
+interface RunStatsSummaryProps {
+  run: RunSummary;
+}
+
+/**
+ * RunStatsSummary - The numbers behind a run, for the game over modal
+ * Catches, misses, accuracy, best combo, length and top fall speed, with a heatmap of the catches
+ */
+export default function RunStatsSummary({ run }: RunStatsSummaryProps) {
+  const accuracy = runAccuracy(run);
+  const stats = [
+    { label: 'Caught', value: run.caught },
+    { label: 'Missed', value: run.missed },
+    { label: 'Accuracy', value: accuracy === null ? '-' : `${Math.round(accuracy * 100)}%` },
+    { label: 'Max combo', value: run.maxCombo },
+    { label: 'Time', value: formatDuration(run.duration) },
+    { label: 'Top speed', value: `${run.peakFallSpeed} px/s` }
+  ];
+
+  return (
+    <div className="space-y-2 text-left">
+      <dl className="grid grid-cols-3 gap-2">
+        {stats.map(({ label, value }) => (
+          <div key={label} className="rounded-md bg-muted px-2 py-1">
+            <dt className="text-xs text-muted-foreground">{label}</dt>
+            <dd className="font-semibold">{value}</dd>
+          </div>
+        ))}
+      </dl>
+      <div>
+        <p className="mb-1 text-xs text-muted-foreground">Where you caught things</p>
+        <CatchHeatmap columns={run.catchHeatmap} />
+      </div>
+    </div>
+  );
+}
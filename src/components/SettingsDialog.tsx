@@ -0,0 +1,240 @@
+// Import React hooks for the dialog's open state
+import { useState } from 'react';
+// Import the form library and its zod integration
+import { Control, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+// Import UI components for the settings form
+import { Button } from './ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from './ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel } from './ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Separator } from './ui/separator';
+import { Slider } from './ui/slider';
+import { Switch } from './ui/switch';
+import KeyBindingsEditor from './KeyBindingsEditor';
+// Import the labels for every option, and the settings schema
+import { CONTROL_SCHEME_LABELS, ControlScheme } from '@/game/controls';
+import { DIFFICULTY_LABELS, DIFFICULTY_PRESETS, DifficultyPresetId } from '@/game/difficulty';
+import { PALETTE_LABELS } from '@/game/palettes';
+import { defaultSettings, GameSettings, settingsSchema } from '@/lib/settings';
+
+interface SettingsDialogProps {
+  value: GameSettings;
+  onChange: (value: GameSettings) => void;
+  autoScheme: ControlScheme;                // What the 'auto' control scheme resolves to on this device
+  onOpenChange?: (open: boolean) => void;   // Lets the parent ignore game shortcuts while the dialog is open
+}
+
+type SelectFieldName = 'controlScheme' | 'defaultDifficulty' | 'palette';
+type SwitchFieldName = 'audio.muted' | 'reducedMotion' | 'showFps';
+type VolumeFieldName = 'audio.master' | 'audio.music' | 'audio.sfx';
+
+// Only the presets can be the default difficulty - custom values are tuned per run
+const DIFFICULTY_PRESET_LABELS = Object.fromEntries(
+  (Object.keys(DIFFICULTY_PRESETS) as DifficultyPresetId[]).map((id) => [id, DIFFICULTY_LABELS[id]])
+);
+
+const VOLUME_FIELDS: { name: VolumeFieldName; label: string }[] = [
+  { name: 'audio.master', label: 'Master volume' },
+  { name: 'audio.music', label: 'Music' },
+  { name: 'audio.sfx', label: 'Sound effects' }
+];
+
+/**
+ * SettingsDialog - A "Settings" button that opens every player setting in one form
+ * Saving applies the settings straight away, including to a game in progress,
+ * and remembers them for next time
+ */
+export default function SettingsDialog({ value, onChange, autoScheme, onOpenChange }: SettingsDialogProps) {
+  const [open, setOpen] = useState(false);
+  const form = useForm<GameSettings>({
+    resolver: zodResolver(settingsSchema),
+    defaultValues: value
+  });
+
+  // Start from the saved settings every time the dialog opens, dropping unsaved edits
+  const changeOpen = (nextOpen: boolean) => {
+    if (nextOpen) form.reset(value);
+    setOpen(nextOpen);
+    onOpenChange?.(nextOpen);
+  };
+
+  const save = (settings: GameSettings) => {
+    onChange(settings);
+    changeOpen(false);
+  };
+
+  const muted = form.watch('audio.muted');
+
+  return (
+    <Dialog open={open} onOpenChange={changeOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="w-full">
+          ⚙️ Settings
+        </Button>
+      </DialogTrigger>
+      {/* Escape only closes the dialog - it shouldn't also reach the game's pause shortcut */}
+      <DialogContent
+        className="max-w-md max-h-[90vh] overflow-y-auto"
+        onEscapeKeyDown={(event) => event.stopPropagation()}
+      >
+        <DialogHeader>
+          <DialogTitle>Settings</DialogTitle>
+          <DialogDescription>Saved on this device and applied straight away.</DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(save)} className="space-y-4">
+            {/* Controls */}
+            <SelectField
+              control={form.control}
+              name="controlScheme"
+              label="Controls"
+              options={{ ...CONTROL_SCHEME_LABELS, auto: `${CONTROL_SCHEME_LABELS.auto} (${CONTROL_SCHEME_LABELS[autoScheme]})` }}
+            />
+            <FormField
+              control={form.control}
+              name="keyBindings"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Key bindings</FormLabel>
+                  <KeyBindingsEditor value={field.value} onChange={field.onChange} />
+                </FormItem>
+              )}
+            />
+
+            <Separator />
+
+            {/* Audio */}
+            <SwitchField control={form.control} name="audio.muted" label="Mute" />
+            {VOLUME_FIELDS.map(({ name, label }) => (
+              <FormField
+                key={name}
+                control={form.control}
+                name={name}
+                render={({ field }) => (
+                  <FormItem>
+                    <div className="flex justify-between">
+                      <FormLabel>{label}</FormLabel>
+                      <span className="text-sm font-mono text-muted-foreground">{Math.round(field.value * 100)}%</span>
+                    </div>
+                    <FormControl>
+                      <Slider
+                        min={0}
+                        max={100}
+                        step={5}
+                        value={[Math.round(field.value * 100)]}
+                        onValueChange={([volume]) => field.onChange(volume / 100)}
+                        disabled={muted}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            ))}
+
+            <Separator />
+
+            {/* Gameplay and display */}
+            <SelectField
+              control={form.control}
+              name="defaultDifficulty"
+              label="Default difficulty"
+              options={DIFFICULTY_PRESET_LABELS}
+            />
+            <SelectField
+              control={form.control}
+              name="palette"
+              label="Color palette"
+              options={PALETTE_LABELS}
+            />
+            <SwitchField
+              control={form.control}
+              name="reducedMotion"
+              label="Reduced motion"
+              description="No screen shake, flashes or bouncing."
+            />
+            <SwitchField control={form.control} name="showFps" label="Show FPS" />
+
+            <DialogFooter className="gap-2">
+              <Button type="button" variant="ghost" onClick={() => form.reset(defaultSettings())}>
+                Reset to defaults
+              </Button>
+              <Button type="submit">Save</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * SelectField - A labelled dropdown for one of the settings with a fixed set of options
+ */
+function SelectField({ control, name, label, options }: {
+  control: Control<GameSettings>;
+  name: SelectFieldName;
+  label: string;
+  options: Record<string, string>;         // Option values mapped to their labels
+}) {
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem className="flex items-center justify-between gap-4 space-y-0">
+          <FormLabel>{label}</FormLabel>
+          <Select value={field.value} onValueChange={field.onChange}>
+            <FormControl>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              {Object.entries(options).map(([option, optionLabel]) => (
+                <SelectItem key={option} value={option}>{optionLabel}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </FormItem>
+      )}
+    />
+  );
+}
+
+/**
+ * SwitchField - A labelled on/off toggle for one of the settings
+ */
+function SwitchField({ control, name, label, description }: {
+  control: Control<GameSettings>;
+  name: SwitchFieldName;
+  label: string;
+  description?: string;
+}) {
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem className="flex items-center justify-between gap-4 space-y-0">
+          <div className="space-y-1">
+            <FormLabel>{label}</FormLabel>
+            {description && <FormDescription>{description}</FormDescription>}
+          </div>
+          <FormControl>
+            <Switch checked={field.value} onCheckedChange={field.onChange} />
+          </FormControl>
+        </FormItem>
+      )}
+    />
+  );
+}
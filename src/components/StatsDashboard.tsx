@@ -0,0 +1,205 @@
+// Import React hooks for the stored runs
+import { useMemo, useState } from 'react';
+// Import the router link back to the game
+import { Link } from 'react-router-dom';
+// Import date-fns for the tooltip dates
+import { format, parseISO } from 'date-fns';
+// Import the chart primitives (the shadcn chart components wrap recharts)
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+// Import UI components for the dashboard
+import { Button } from './ui/button';
+import { Card } from './ui/card';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from './ui/chart';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from './ui/alert-dialog';
+import CatchHeatmap from './CatchHeatmap';
+// Import the mode names and the stored run statistics
+import { GAME_MODE_LABELS, GAME_MODES } from '@/game/modes';
+import { DIFFICULTY_LABELS } from '@/game/difficulty';
+import {
+  accuracyDistribution,
+  bestRuns,
+  clearRunStats,
+  combinedHeatmap,
+  loadRunStats,
+  runAccuracy
+} from '@/lib/stats';
+import { formatDuration } from '@/lib/utils';
+
+// Series colors, shared by the charts' tooltips
+const SCORE_CHART: ChartConfig = { score: { label: 'Score', color: 'hsl(var(--primary))' } };
+const ACCURACY_CHART: ChartConfig = { runs: { label: 'Runs', color: 'hsl(var(--primary))' } };
+const BEST_CHART: ChartConfig = { score: { label: 'Best score', color: 'hsl(var(--primary))' } };
+
+/**
+ * StatsDashboard - Trends across every recorded run (the Stats page)
+ * Totals, score over time, how accurate runs are, the best run of each mode and difficulty and
+ * where catches happen; everything comes from local storage and can be wiped
+ */
+export default function StatsDashboard() {
+  const [runs, setRuns] = useState(loadRunStats);
+
+  // Chart data, worked out once per change of the stored runs
+  const scores = useMemo(
+    () => runs.map((run, index) => ({ run: index + 1, score: run.score, date: run.date, mode: run.mode })),
+    [runs]
+  );
+  const accuracy = useMemo(() => accuracyDistribution(runs), [runs]);
+  const best = useMemo(() => bestRuns(runs).map((run) => ({
+    ...run,
+    label: `${GAME_MODES[run.mode].icon} ${DIFFICULTY_LABELS[run.difficulty]}`
+  })), [runs]);
+  const heatmap = useMemo(() => combinedHeatmap(runs), [runs]);
+
+  // Totals for the summary cards
+  // (accuracy only over runs that counted the catches it needs)
+  const caught = runs.reduce((total, run) => total + run.caught, 0);
+  const counted = runs.filter((run) => run.neededCaught !== undefined);
+  const overallAccuracy = runAccuracy({
+    neededCaught: counted.reduce((total, run) => total + run.neededCaught, 0),
+    missed: counted.reduce((total, run) => total + run.missed, 0)
+  });
+  const totals = [
+    { label: 'Runs', value: runs.length },
+    { label: 'Caught', value: caught },
+    { label: 'Accuracy', value: overallAccuracy === null ? '-' : `${Math.round(overallAccuracy * 100)}%` },
+    { label: 'Best combo', value: Math.max(0, ...runs.map((run) => run.maxCombo)) },
+    { label: 'Time played', value: formatDuration(runs.reduce((total, run) => total + run.duration, 0)) },
+    { label: 'Top speed', value: `${Math.max(0, ...runs.map((run) => run.peakFallSpeed))} px/s` }
+  ];
+
+  const resetStats = () => {
+    clearRunStats();
+    setRuns([]);
+  };
+
+  return (
+    <div className="menu-page">
+      <div className="mx-auto max-w-4xl space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <Button asChild variant="ghost">
+            <Link to="/">← Back to the game</Link>
+          </Button>
+          <h1 className="text-2xl font-bold text-primary">📊 Stats</h1>
+
+          {/* Wiping the stats can't be undone, so it asks first */}
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" disabled={runs.length === 0}>Reset</Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Reset your stats?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Every recorded run is deleted from this browser. High scores and the daily history are kept.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={resetStats}>Reset</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+
+        {runs.length === 0 ? (
+          <Card className="p-8 text-center text-muted-foreground">
+            No runs recorded yet - finish a game and its stats show up here.
+          </Card>
+        ) : (
+          <>
+            <dl className="grid grid-cols-2 gap-2 sm:grid-cols-3 md:grid-cols-6">
+              {totals.map(({ label, value }) => (
+                <Card key={label} className="p-3">
+                  <dt className="text-xs text-muted-foreground">{label}</dt>
+                  <dd className="text-xl font-bold">{value}</dd>
+                </Card>
+              ))}
+            </dl>
+
+            {/* Score of every run, oldest first */}
+            <Card className="p-4">
+              <h2 className="mb-2 font-semibold">Score over time</h2>
+              <ChartContainer config={SCORE_CHART} className="aspect-auto h-64 w-full">
+                <LineChart data={scores} margin={{ left: 0, right: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="run" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} width={32} allowDecimals={false} />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        labelFormatter={(_, [item]) => {
+                          const { run, date, mode } = item.payload;
+                          return `Run ${run} · ${GAME_MODE_LABELS[mode]} · ${format(parseISO(date), 'MMM d, HH:mm')}`;
+                        }}
+                      />
+                    }
+                  />
+                  <Line dataKey="score" stroke="var(--color-score)" strokeWidth={2} dot={runs.length <= 50} />
+                </LineChart>
+              </ChartContainer>
+            </Card>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              {/* How many runs reached each accuracy */}
+              <Card className="p-4">
+                <h2 className="mb-2 font-semibold">Accuracy</h2>
+                <ChartContainer config={ACCURACY_CHART} className="aspect-auto h-56 w-full">
+                  <BarChart data={accuracy} margin={{ left: 0, right: 8 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="range" tickLine={false} axisLine={false} fontSize={10} interval={0} angle={-30} textAnchor="end" height={40} />
+                    <YAxis tickLine={false} axisLine={false} width={32} allowDecimals={false} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="runs" fill="var(--color-runs)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </Card>
+
+              {/* The best run of every mode and difficulty played (daily runs have their own history) */}
+              <Card className="p-4">
+                <h2 className="mb-2 font-semibold">Best runs</h2>
+                <ChartContainer config={BEST_CHART} className="aspect-auto h-56 w-full">
+                  <BarChart data={best} margin={{ left: 0, right: 8 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} fontSize={10} interval={0} angle={-30} textAnchor="end" height={40} />
+                    <YAxis tickLine={false} axisLine={false} width={32} allowDecimals={false} />
+                    <ChartTooltip
+                      content={
+                        <ChartTooltipContent
+                          labelFormatter={(_, [item]) => {
+                            const { mode, difficulty, duration } = item.payload;
+                            return `${GAME_MODE_LABELS[mode]} · ${DIFFICULTY_LABELS[difficulty]} · ${formatDuration(duration)}`;
+                          }}
+                        />
+                      }
+                    />
+                    <Bar dataKey="score" fill="var(--color-score)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </Card>
+            </div>
+
+            {/* Every catch of every run, across the width of the game */}
+            <Card className="p-4">
+              <h2 className="mb-2 font-semibold">Where you catch things</h2>
+              <CatchHeatmap columns={heatmap} className="h-10" />
+              <div className="mt-1 flex justify-between text-xs text-muted-foreground">
+                <span>Left edge</span>
+                <span>Right edge</span>
+              </div>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
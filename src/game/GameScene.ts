@@ -0,0 +1,803 @@
+// Import Phaser.js - a powerful 2D game framework for HTML5
+import Phaser from 'phaser';
+// Import the typed event bus used to talk to the React UI
+import { GameEventBus } from './events';
+// Import the game engine - the rules of a run, which this scene draws and feeds with input
+import { EngineEvent, GameEngine, INVULNERABILITY_MS, MAX_ITEMS, PLATE_HEIGHT } from './engine';
+// Import the catalog of falling items (for their artwork)
+import { ITEM_CATALOG } from './items';
+// Import the difficulty presets (spawn rate, fall speed, plate speed and size)
+import { DEFAULT_DIFFICULTY, DIFFICULTY_PRESETS, DifficultyConfig } from './difficulty';
+// Import the game mode rules (lives, spawn cadence, loss conditions)
+import { DEFAULT_MODE, GAME_MODES, GameModeId } from './modes';
+// Import the run modifiers (daily challenge twists)
+import { RunModifierId } from './modifiers';
+// Import the seed generator for runs that weren't given one
+import { randomSeed } from './random';
+// Import input recording and playback (and the fixed simulation step they rely on)
+import { quantizeInput, Replay, ReplayConfig, ReplayPlayer, ReplayRecorder, TICK_MS, TickInput } from './replay';
+// Import the control scheme type (keyboard, pointer follow, drag, on-screen buttons) and key bindings
+import { ControlScheme } from './controls';
+// Import the input actions (move, dash...) shared with React
+import { applyDeadzone, GAMEPAD_BUTTON_ACTIONS, InputAction, InputActions } from './input';
+// Import the music and sound effect player
+import { AudioManager } from './audio';
+// Import the color palettes (classic, high contrast, color-blind friendly)
+import { Palette, PALETTES } from './palettes';
+import { defaultSettings, GameSettings } from '@/lib/settings';
+
+// How often a replay's playback position is sent to React (in ticks)
+const REPLAY_PROGRESS_TICKS = 6;
+
+// Most ticks simulated in one frame - after a long stall (a throttled tab, a slow device) the
+// rest of the lost time is dropped, so the game slows down briefly instead of lurching ahead.
+// Enough for a 4× replay at 20 fps
+const MAX_TICKS_PER_FRAME = 12;
+
+// Everything that decides how a run plays, besides its seed, the game size and the player's input
+interface RunConfig {
+  mode: GameModeId;
+  difficulty: DifficultyConfig;   // Before modifiers
+  modifiers: RunModifierId[];
+  lives: number;
+}
+
+// How the falling item pool is doing, for the debug overlay
+export interface ItemPoolStats {
+  capacity: number;   // Most sprites the pool will ever hold
+  size: number;       // Sprites created so far
+  active: number;     // Sprites currently falling
+  free: number;       // Sprites waiting to be reused
+  skipped: number;    // Spawns skipped this run because the screen was full
+}
+
+// Data handed to the scene by React when it starts
+export interface GameSceneData {
+  bus: GameEventBus;    // Event bus the scene publishes game events on
+  mode?: GameModeId;    // Rules for the run: lives, spawn cadence, when it ends (defaults to DEFAULT_MODE)
+  lives?: number;       // Starting number of lives (defaults to the mode's)
+  seed?: string;        // Seed for every random decision, so a run can be replayed (defaults to a random one)
+  modifiers?: RunModifierId[];  // Twists on top of the mode and difficulty (defaults to none)
+  difficulty?: DifficultyConfig;  // Spawn/speed tuning (defaults to the 'normal' preset)
+  controlScheme?: ControlScheme;  // How the plate is steered besides the movement actions (defaults to 'keyboard')
+  actions?: InputActions;         // Input actions held by the keyboard, on-screen buttons and gamepad
+  settings?: GameSettings;        // Player settings: key bindings, audio, palette... (defaults to defaultSettings())
+  replay?: Replay;                // Watch this replay instead of playing a run
+}
+
+/**
+ * GameScene class extends Phaser.Scene - this is where the game is drawn and played
+ * In Phaser, a Scene is like a "screen" or "level" in your game
+ * The rules live in GameEngine: this scene feeds it the player's input a tick at a time,
+ * draws where everything is, and turns what happened into sounds, effects and events for React
+ * All textures, animations and sounds are loaded beforehand by LoadingScene
+ */
+export default class GameScene extends Phaser.Scene {
+  // Game objects - these are the visual elements in our game
+  private sky?: Phaser.GameObjects.Image;          // Background sky, stretched to the game size
+  private hills?: Phaser.GameObjects.Image;        // Background hills along the bottom edge
+  private plate?: Phaser.GameObjects.Sprite;       // The player-controlled plate, drawn where the engine puts it
+  private apples?: Phaser.GameObjects.Group;       // Pool of falling item sprites - caught and missed ones are reused
+  private itemSprites = new Map<number, Phaser.GameObjects.Sprite>();  // The sprite drawing each of the engine's items
+  private liveItemIds = new Set<number>();         // Scratch set for drawItems(), kept to avoid garbage every frame
+
+  // Input handling - keys and buttons arrive as actions, so the scene never checks specific keys
+  private actions = new InputActions();  // Replaced by React's shared instance in init()
+  private controlScheme: ControlScheme = 'keyboard';  // Extra way to steer (pointer, drag)
+  private dragOffset = 0;             // Distance between the plate and the pointer when a drag started
+  private dashQueued = false;         // Dash was pressed since the last tick
+
+  // Game state - the run itself lives in the engine
+  private engine!: GameEngine;        // Created in init()
+  private gameOver = false;           // Is the game currently over (or a finished replay showing)?
+  private paused = false;             // Is the scene paused by the player (or by losing focus)?
+
+  // Fixed-step simulation - the engine always advances in whole ticks of TICK_MS,
+  // however long each frame takes, so a replay runs exactly like the live run
+  private accumulator = 0;            // Frame time not yet simulated
+
+  // Replays - live runs are recorded; watching one drives the run from the recording instead
+  private recorder?: ReplayRecorder;
+  private replay?: ReplayPlayer;
+  private initialReplay?: Replay;     // Replay to watch as soon as the scene is ready (an imported file)
+  private replaySpeed = 1;            // Playback speed (0 while playback is paused)
+  private fastForwarding = false;     // Seeking through a replay - no sounds or effects
+  private lastProgressTick = 0;       // Tick the replay's position was last sent at
+  private bus?: GameEventBus;         // Event bus shared with the React component
+  private audio?: AudioManager;       // Background music and sound effects
+  private settings = defaultSettings();  // Player settings from React (key bindings, audio, palette...)
+  private fpsText?: Phaser.GameObjects.Text;  // Frame rate counter, only visible with "Show FPS" on
+
+  // Difficulty tuning and game mode for this game, chosen on the start screen
+  // (a replay plays with its own until it's done)
+  private liveConfig: RunConfig = {
+    mode: DEFAULT_MODE,
+    difficulty: DIFFICULTY_PRESETS[DEFAULT_DIFFICULTY],
+    modifiers: [],
+    lives: 0
+  };
+
+  /**
+   * Constructor - sets up the scene with a unique key
+   * The key 'GameScene' is used to identify this scene in Phaser's scene manager
+   */
+  constructor() {
+    super({ key: 'GameScene' });
+  }
+
+  /**
+   * init() - Called when the scene starts
+   * This method receives data passed from React and initializes the game state
+   * @param data - GameSceneData object passed in from React
+   */
+  init(data: GameSceneData) {
+    this.bus = data.bus;         // Store reference to the shared event bus
+    const mode = data.mode ?? DEFAULT_MODE;
+    this.liveConfig = {
+      mode,
+      difficulty: data.difficulty ?? DIFFICULTY_PRESETS[DEFAULT_DIFFICULTY],
+      modifiers: data.modifiers ?? [],
+      lives: data.lives ?? GAME_MODES[mode].lives ?? 0
+    };
+    this.controlScheme = data.controlScheme ?? 'keyboard';
+    this.settings = data.settings ?? defaultSettings();
+    this.actions = data.actions ?? new InputActions();
+    this.replay = undefined;     // Always starts with a live run (an imported replay takes over in create())
+    this.initialReplay = data.replay;
+    this.paused = false;         // A fresh scene is never paused
+    this.gameOver = false;
+    this.accumulator = 0;
+    this.dashQueued = false;
+    this.engine = new GameEngine(this.engineConfig(this.liveConfig, data.seed ?? randomSeed()));
+  }
+
+  /**
+   * engineConfig() - Everything the engine needs to start a live run at the current game size
+   * (the run keeps that size to the end - see fitView())
+   */
+  private engineConfig(config: RunConfig, seed: string): ReplayConfig {
+    return {
+      seed,
+      mode: config.mode,
+      difficulty: config.difficulty,
+      modifiers: config.modifiers,
+      lives: config.lives,
+      width: this.scale.width,
+      height: this.scale.height
+    };
+  }
+
+  /**
+   * startRecording() - Starts recording a live run's input, for the game over card's replay
+   */
+  private startRecording() {
+    this.recorder = new ReplayRecorder(this.engine.config);
+  }
+
+  /**
+   * create() - Called after preload(), this is where we set up our game world
+   * This method creates all game objects, sets up input, and publishes the starting state
+   */
+  create() {
+    const { width, height } = this.scale;
+
+    // Background first, so everything else is drawn on top of it
+    this.sky = this.add.image(0, 0, 'backgrounds', 'sky').setOrigin(0, 0);
+    this.hills = this.add.image(0, height, 'backgrounds', 'hills').setOrigin(0, 1);
+
+    // Create the player's plate (the engine decides where it is and how wide)
+    this.plate = this.add.sprite(this.engine.plate.x, this.engine.plate.y, 'sprites', 'plate');
+    this.plate.setDisplaySize(this.engine.plate.width, PLATE_HEIGHT);
+
+    // Create a pool to hold all our apples
+    // Groups in Phaser are collections of similar objects for easy management; with a maxSize,
+    // get() hands back a sprite that was put away (killAndHide) before creating a new one
+    this.apples = this.add.group({ maxSize: MAX_ITEMS });
+
+    // Dash when the player presses the dash action (holding the others is checked every frame)
+    const offPress = this.actions.onPress((action) => this.handleAction(action));
+
+    // Gamepad buttons hold actions just like keys; the left stick is read every frame
+    this.input.gamepad?.on('down', (pad: Phaser.Input.Gamepad.Gamepad, button: Phaser.Input.Gamepad.Button) => {
+      const action = GAMEPAD_BUTTON_ACTIONS[button.index];
+      if (action) this.actions.hold(action, `pad:${pad.index}:${button.index}`);
+    });
+    this.input.gamepad?.on('up', (pad: Phaser.Input.Gamepad.Gamepad, button: Phaser.Input.Gamepad.Button) => {
+      const action = GAMEPAD_BUTTON_ACTIONS[button.index];
+      if (action) this.actions.release(action, `pad:${pad.index}:${button.index}`);
+    });
+    this.input.gamepad?.on('disconnected', () => this.actions.releaseAll('pad:'));  // Unplugged mid-press
+
+    // The actions outlive the game, so let go of them however the scene ends
+    const detachInput = () => {
+      offPress();
+      this.actions.releaseAll('pad:');
+    };
+    this.events.once('shutdown', detachInput);
+    this.events.once('destroy', detachInput);
+
+    // Drag control - remember where the plate was relative to the pointer when the drag began
+    this.input.on('pointerdown', (pointer: Phaser.Input.Pointer) => {
+      this.dragOffset = this.engine.plate.x - pointer.worldX;
+    });
+
+    // Keep the layout in step with the canvas when the window is resized or the phone rotates
+    this.scale.on('resize', this.handleResize, this);
+    this.events.once('shutdown', () => this.scale.off('resize', this.handleResize, this));
+
+    // Start the music (it stops by itself when the game is destroyed)
+    this.audio = new AudioManager(this, this.settings.audio);
+    this.audio.playMusic();
+
+    // Frame rate counter in the bottom corner, above everything else
+    this.fpsText = this.add.text(8, height - 8, '', {
+      fontSize: '14px',
+      fontFamily: 'monospace',
+      color: '#ffffff',
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      padding: { x: 4, y: 2 }
+    }).setOrigin(0, 1).setDepth(100);
+
+    // Apply the palette and FPS counter now that everything they touch exists
+    this.applyDisplaySettings();
+    this.fitView();
+
+    // Publish the initial score, lives and power-ups so the UI starts from a known state
+    this.handleEvents(this.engine.snapshot());
+
+    this.startRecording();
+
+    // An imported replay starts playing straight away
+    if (this.initialReplay) this.startReplay(this.initialReplay);
+  }
+
+  /**
+   * update() - The game loop! Called every frame (usually 60 times per second)
+   * The frame's time is simulated in fixed ticks (see step()), so the game plays
+   * the same whatever the frame rate - and a replay plays exactly like the run
+   * Phaser doesn't call it at all while the scene is paused
+   * @param _time - Current timestamp in milliseconds since the game started (keeps running while paused)
+   * @param delta - Milliseconds since the previous frame
+   */
+  update(_time: number, delta: number) {
+    // Keep the FPS counter ticking, even on the game over screen
+    // (with the item pool's usage, to spot leaks in long runs)
+    if (this.settings.showFps) {
+      const pool = this.poolStats();
+      this.fpsText!.setText(
+        `${Math.round(this.game.loop.actualFps)} FPS · items ${pool.active}/${pool.capacity} (${pool.free} free, ${pool.skipped} skipped)`
+      );
+    }
+
+    // If the game is over, stop processing
+    if (this.gameOver) return;
+
+    // Live runs read the gamepad stick once a frame; replays bring their own input
+    if (!this.replay) this.readGamepadStick();
+
+    // Simulate as many whole ticks as the frame's time covers (a replay's speed stretches or shrinks it),
+    // but never more than MAX_TICKS_PER_FRAME
+    this.accumulator = Math.min(
+      this.accumulator + delta * (this.replay ? this.replaySpeed : 1),
+      MAX_TICKS_PER_FRAME * TICK_MS
+    );
+    while (this.accumulator >= TICK_MS && !this.gameOver) {
+      this.accumulator -= TICK_MS;
+      this.step();
+    }
+
+    // Draw everything part way between the last two ticks, by how far the frame got into the next one
+    this.draw(this.gameOver ? 1 : this.accumulator / TICK_MS);
+    this.broadcastReplayProgress();
+  }
+
+  /**
+   * step() - Advances the run by one tick, with the player's input (recorded as it's used)
+   * or the input of the replay being watched
+   */
+  private step() {
+    const tick = this.engine.tick + 1;
+    const input = this.replay ? this.replay.inputAt(tick) : this.readInput();
+    if (!this.replay) this.recorder?.record(tick, input);  // Watching a replay leaves the finished run's recording alone
+    this.handleEvents(this.engine.step(input));
+
+    // A replay ends where the recorded run ended (even if the player finished it by hand)
+    if (this.replay && this.engine.tick >= this.replay.replay.ticks) this.endGame();
+  }
+
+  /**
+   * handleEvents() - Turns what happened in the engine into sounds, effects and events for React
+   */
+  private handleEvents(events: EngineEvent[]) {
+    events.forEach((event) => {
+      switch (event.type) {
+        case 'scoreChanged':
+          this.bus?.emit('scoreChanged', { score: event.score });
+          break;
+        case 'comboChanged':
+          this.bus?.emit('comboChanged', { combo: event.combo, multiplier: event.multiplier });
+          break;
+        case 'livesChanged':
+          this.bus?.emit('livesChanged', { lives: event.lives });
+          break;
+        case 'powerUpsChanged':
+          this.bus?.emit('powerUpsChanged', { active: event.active });
+          break;
+        case 'clockChanged':
+          this.bus?.emit('clockChanged', { remaining: event.remaining });
+          break;
+        case 'playTimeChanged':
+          this.bus?.emit('playTimeChanged', { elapsed: event.elapsed });
+          break;
+        case 'itemSpawned':
+          this.audio?.setMusicIntensity(this.engine.spawnIntensity);  // Music speeds up with the spawn rate
+          this.bus?.emit('appleSpawned', { x: event.item.x, y: event.item.y, item: event.item.item });
+          break;
+        case 'itemCaught':
+          this.showCatch(event.item.x, event.item.y, event.gained);
+          this.bus?.emit('appleCaught', { x: event.item.x, y: event.item.y, score: event.score, item: event.item.item });
+          break;
+        case 'itemMissed':
+          this.bus?.emit('appleMissed', { x: event.item.x, item: event.item.item });
+          break;
+        case 'shieldUsed':
+          if (!this.settings.reducedMotion && !this.fastForwarding) {
+            this.cameras.main.flash(150, 0, 206, 209);  // Turquoise flash to show the shield worked
+          }
+          break;
+        case 'hurt':
+          this.audio?.play('miss');
+          if (event.lifeLost) this.showLifeLost();
+          break;
+        case 'powerUpActivated':
+          this.audio?.play('powerUp');
+          break;
+        case 'runOver':
+          this.endGame();
+          break;
+      }
+    });
+  }
+
+  /**
+   * draw() - Puts the plate and items where the engine has them, part way between the last two ticks
+   * @param alpha - How far between the ticks, 0 (previous tick) to 1 (latest tick)
+   */
+  private draw(alpha: number) {
+    const plate = this.engine.plate;
+    this.plate!.setPosition(Phaser.Math.Linear(plate.prevX, plate.x, alpha), Phaser.Math.Linear(plate.prevY, plate.y, alpha));
+    if (this.plate!.displayWidth !== plate.width) this.plate!.displayWidth = plate.width;  // Wide plate power-up
+    this.drawItems(alpha);
+  }
+
+  /**
+   * drawItems() - Puts away the sprites of items that are gone, gives every new falling item
+   * a sprite from the pool and moves them all into place
+   */
+  private drawItems(alpha: number) {
+    // Caught, missed and cleared items go back to the pool first, so new items can reuse their sprites
+    // (several ticks can pass between frames, so items can come and go within one)
+    this.liveItemIds.clear();
+    this.engine.items.forEach((item) => this.liveItemIds.add(item.id));
+    this.itemSprites.forEach((sprite, id) => {
+      if (this.liveItemIds.has(id)) return;
+      this.apples!.killAndHide(sprite);
+      this.itemSprites.delete(id);
+    });
+
+    this.engine.items.forEach((item) => {
+      let sprite = this.itemSprites.get(item.id);
+      if (!sprite) {
+        // Take a sprite from the pool (a full pool leaves the item undrawn until a sprite frees up)
+        const type = ITEM_CATALOG[item.item];
+        const pooled = this.apples!.get(item.x, item.y, 'sprites', type.frame) as Phaser.GameObjects.Sprite | null;
+        if (!pooled) return;
+        sprite = pooled;
+        sprite.setActive(true).setVisible(true);  // A reused sprite was put away hidden
+        sprite.setFrame(type.frame);              // Look from the catalog (a reused sprite has the last item's)
+        sprite.setDisplaySize(item.size, item.size);
+        this.applyPalette(sprite);                // Recolor it if the palette asks for it
+        this.itemSprites.set(item.id, sprite);
+      }
+      sprite.setPosition(Phaser.Math.Linear(item.prevX, item.x, alpha), Phaser.Math.Linear(item.prevY, item.y, alpha));
+    });
+  }
+
+  /**
+   * poolStats() - How the falling item pool is doing, for the debug overlay
+   */
+  poolStats(): ItemPoolStats {
+    const size = this.apples?.getLength() ?? 0;
+    const active = this.apples?.countActive(true) ?? 0;
+    return { capacity: MAX_ITEMS, size, active, free: size - active, skipped: this.engine.skippedSpawns };
+  }
+
+  /**
+   * readInput() - What the player is doing right now, as the input for one tick
+   */
+  private readInput(): TickInput {
+    const pointer = this.input.activePointer;
+    let targetX: number | null = null;
+    if (this.controlScheme === 'pointer') {
+      targetX = pointer.worldX;                      // Follow the pointer
+    } else if (this.controlScheme === 'drag' && pointer.isDown) {
+      targetX = pointer.worldX + this.dragOffset;    // Move with the drag
+    }
+
+    const dash = this.dashQueued;
+    this.dashQueued = false;
+    return quantizeInput({ axis: this.actions.axis, dash, targetX });
+  }
+
+  /**
+   * handleResize() - Called by Phaser's Scale Manager whenever the canvas size changes
+   * The run carries on at the size it started at (so its replay plays out the same) - only the view changes
+   */
+  private handleResize() {
+    this.fitView();
+  }
+
+  /**
+   * fitView() - Scales the run's game area to fill as much of the canvas as it can, centered
+   * A run keeps the game size it started at, so after a resize (or for a replay recorded
+   * in a different window) the space left over around it shows the canvas's sky blue
+   */
+  private fitView() {
+    const { width, height } = this.engine.config;
+    const camera = this.cameras.main;
+    camera.setZoom(Math.min(this.scale.width / width, this.scale.height / height));
+    camera.centerOn(width / 2, height / 2);
+    this.layoutBackground(width, height);
+    this.fpsText!.setPosition(8, height - 8);
+  }
+
+  /**
+   * layoutBackground() - Stretches the sky over the whole game and lays the hills along the bottom
+   */
+  private layoutBackground(width: number, height: number) {
+    this.sky!.setDisplaySize(width, height);
+    this.hills!.setPosition(0, height);
+    this.hills!.setDisplaySize(width, Math.min(128, height / 4));
+  }
+
+  /**
+   * applySettings() - Applies new player settings mid-game (e.g. from the settings dialog)
+   * Audio, palette, reduced motion and the FPS counter all take effect immediately
+   * (key bindings live in the InputActions React shares with the scene)
+   */
+  applySettings(settings: GameSettings) {
+    this.settings = settings;
+    if (!this.plate) return;           // Still loading - create() will pick the settings up
+
+    this.audio?.applySettings(settings.audio);
+    this.applyDisplaySettings();
+  }
+
+  /**
+   * palette - The colors chosen in the settings
+   */
+  private get palette(): Palette {
+    return PALETTES[this.settings.palette];
+  }
+
+  /**
+   * applyDisplaySettings() - Recolors the background, plate and falling items for the
+   * current palette, and shows or hides the FPS counter
+   */
+  private applyDisplaySettings() {
+    this.sky!.setTint(this.palette.background);
+    this.hills!.setTint(this.palette.background);
+    this.applyPalette(this.plate!);
+    this.apples!.getChildren().forEach((child) => this.applyPalette(child as Phaser.GameObjects.Sprite));
+    this.fpsText!.setVisible(this.settings.showFps);
+  }
+
+  /**
+   * applyPalette() - Paints a sprite in its palette color, or restores its artwork
+   */
+  private applyPalette(sprite: Phaser.GameObjects.Sprite) {
+    const color = this.palette.frames[sprite.frame.name as keyof Palette['frames']];
+    if (color === undefined) {
+      sprite.clearTint();
+    } else {
+      sprite.setTintFill(color);
+    }
+  }
+
+  /**
+   * readGamepadStick() - Passes the left stick of the connected gamepad(s) on as an analog axis
+   * With several pads connected, whichever stick is pushed furthest wins
+   */
+  private readGamepadStick() {
+    const pads = this.input.gamepad?.getAll() ?? [];
+    const x = pads.reduce((furthest, pad) => (
+      Math.abs(pad.leftStick.x) > Math.abs(furthest) ? pad.leftStick.x : furthest
+    ), 0);
+    this.actions.setAnalogAxis(applyDeadzone(x));
+  }
+
+  /**
+   * handleAction() - Reacts to pressed actions (pause and restart are handled by React,
+   * which still hears them while the scene is paused)
+   */
+  private handleAction(action: InputAction) {
+    if (action === 'dash' && !this.replay) this.dashQueued = true;  // Dashes on the next tick
+  }
+
+  /**
+   * setControlScheme() - Switches control scheme mid-game (e.g. when React's setting changes)
+   */
+  setControlScheme(scheme: ControlScheme) {
+    this.controlScheme = scheme;
+  }
+
+  /**
+   * showLifeLost() - Visual feedback for losing a life
+   * Shakes and flashes the camera red, then blinks the plate while the
+   * invulnerability window lasts so the player knows they're safe for a moment
+   * With reduced motion on, the plate just dims for the invulnerability window instead
+   */
+  private showLifeLost() {
+    if (this.fastForwarding) return;   // Nobody is watching while a replay seeks
+    if (this.settings.reducedMotion) {
+      this.tweens.add({
+        targets: this.plate,
+        alpha: 0.5,                    // Dim the plate...
+        duration: 100,
+        hold: INVULNERABILITY_MS - 200,  // ...while invulnerable...
+        yoyo: true,                    // ...then bring it back
+        onComplete: () => this.plate?.setAlpha(1)
+      });
+      return;
+    }
+
+    this.cameras.main.shake(200, 0.01);           // Short, light screen shake
+    this.cameras.main.flash(200, 255, 0, 0);      // Red flash
+    this.tweens.add({
+      targets: this.plate,
+      alpha: 0.3,                      // Fade the plate out...
+      duration: 100,
+      yoyo: true,                      // ...and back in
+      repeat: INVULNERABILITY_MS / 200 - 1,  // Keep blinking until invulnerability ends
+      onComplete: () => this.plate?.setAlpha(1)
+    });
+  }
+
+  /**
+   * showCatch() - Feedback for a catch: the points it was worth, a sparkle and a little plate bounce
+   * @param x - Where the catch happened
+   * @param y - Where the catch happened
+   * @param gained - Points the catch was worth, combo multiplier included
+   */
+  private showCatch(x: number, y: number, gained: number) {
+    if (gained > 0) {
+      this.showFloatingText(x, y, `+${gained}`);
+      this.audio?.playCatch(this.engine.combo);  // Higher pitch the longer the combo
+    }
+
+    // No effects while a replay seeks
+    if (this.fastForwarding) return;
+
+    // Sparkle burst where the item was caught (hides itself when the animation ends)
+    const sparkle = this.add.sprite(x, y, 'sparkle').play('sparkle');
+    sparkle.once(Phaser.Animations.Events.ANIMATION_COMPLETE, () => sparkle.destroy());
+
+    // Add a visual feedback effect - make the plate briefly "bounce" up
+    // This is a tween (smooth animation) that makes the game feel more responsive
+    // The plate's texture is stretched to PLATE_HEIGHT, so "120% height" is relative to that
+    // Skipped with reduced motion on
+    if (this.settings.reducedMotion) return;
+    this.tweens.add({
+      targets: this.plate,
+      scaleY: (PLATE_HEIGHT / this.plate!.frame.height) * 1.2,  // Scale it up to 120% height
+      duration: 100,                   // Animation lasts 100 milliseconds
+      yoyo: true,                      // Reverse the animation (scale back down)
+      ease: 'Power2'                   // Use smooth easing for natural feel
+    });
+  }
+
+  /**
+   * showFloatingText() - Pops up a short message (like "+3") that drifts up and fades out
+   * (with reduced motion on, it fades out where it is)
+   * @param x - Where to show it
+   * @param y - Where to show it
+   * @param message - The text to show
+   */
+  private showFloatingText(x: number, y: number, message: string) {
+    if (this.fastForwarding) return;   // Nobody is watching while a replay seeks
+    const text = this.add.text(x, y, message, {
+      fontSize: '24px',
+      fontStyle: 'bold',
+      color: this.palette.text,        // Gold, unless the palette says otherwise
+      stroke: '#000000',
+      strokeThickness: 4
+    }).setOrigin(0.5);
+
+    this.tweens.add({
+      targets: text,
+      y: this.settings.reducedMotion ? y : y - 50,  // Drift upwards...
+      alpha: 0,                        // ...while fading out
+      duration: 700,
+      ease: 'Cubic.easeOut',
+      onComplete: () => text.destroy()
+    });
+  }
+
+  /**
+   * endGame() - Called when the engine says the run is over (out of lives, a bomb,
+   * out of time), the player finishes the run from the pause menu, or a replay runs out
+   * This stops all game activity and triggers the game over state
+   */
+  private endGame() {
+    if (this.gameOver) return;
+    this.gameOver = true;           // Mark the game as over
+    this.draw(1);                   // Show where everything ended up
+    this.audio?.stopMusic();
+    this.audio?.play('gameOver');
+
+    // A replay reaching its end isn't a new run - React just shows the end of the playback
+    // (seeking straight to the end doesn't count as watching it to the end)
+    if (this.replay) {
+      this.broadcastReplayProgress(true);
+      if (!this.fastForwarding) {
+        this.bus?.emit('replayFinished', { score: this.engine.score, expectedScore: this.replay.replay.score });
+      }
+      return;
+    }
+
+    // Let React show the game over modal, along with a summary of the run and its replay
+    this.bus?.emit('gameOver', {
+      ...this.engine.result(),
+      replay: this.recorder!.finish(this.engine.tick, this.engine.score)
+    });
+  }
+
+  /**
+   * finishRun() - Ends the run early and keeps its score (the only way a Zen run ends)
+   * Called from React's pause menu
+   */
+  finishRun() {
+    if (this.gameOver || this.replay || !this.plate) return;
+    this.resumeGame();              // Wake the scene so the game over state shows up properly
+    this.handleEvents(this.engine.finish());
+  }
+
+  /**
+   * pauseGame() - Freezes the game: update(), tweens and timers all stop
+   * Called from React (pause button, Escape/P keys, or the tab losing focus)
+   */
+  pauseGame() {
+    if (this.paused || this.gameOver || this.replay || !this.sys.isActive()) return;  // Nothing to pause (replays pause with setReplaySpeed)
+    this.paused = true;
+    this.scene.pause();             // Stops every scene system, but keeps rendering the last frame
+    this.actions.releaseAll('pad:'); // A paused scene misses gamepad releases, so start fresh on resume
+    this.audio?.pauseMusic();       // Sounds belong to the whole game, so they need pausing separately
+    this.bus?.emit('pauseChanged', { paused: true });
+  }
+
+  /**
+   * resumeGame() - Picks the game up exactly where it was paused
+   */
+  resumeGame() {
+    if (!this.paused) return;
+    this.paused = false;
+    this.scene.resume();
+    this.audio?.resumeMusic();
+    this.bus?.emit('pauseChanged', { paused: false });
+  }
+
+  /**
+   * restart() - Resets the game to its initial state for a new game
+   * This method is called when the player clicks "Play Again" (or "Restart" in the pause menu)
+   * @param seed - Seed for the new run (defaults to a random one)
+   */
+  restart(seed = randomSeed()) {
+    // A restart from the pause menu has to wake the scene up first
+    this.resumeGame();
+
+    // Back to the player's own rules, in case a replay was being watched
+    this.replay = undefined;
+    this.setReplaySpeed(1);
+
+    this.resetRun(this.engineConfig(this.liveConfig, seed));
+    this.startRecording();
+
+    // Announce the new run to React
+    this.bus?.emit('restarted', {});
+  }
+
+  /**
+   * resetRun() - Starts a run from scratch (a live run or a replay)
+   * @param config - The run's seed, mode, difficulty, modifiers, lives and game size
+   */
+  private resetRun(config: ReplayConfig) {
+    // A fresh run in the engine, shown as big as the canvas allows
+    this.engine.reset(config);
+    this.fitView();
+    this.gameOver = false;
+    this.accumulator = 0;
+    this.lastProgressTick = 0;
+    this.dashQueued = false;
+
+    // Stop any life-lost blinking and make the plate fully visible again
+    this.tweens.killTweensOf(this.plate!);
+    this.plate!.setAlpha(1);
+    this.plate!.setDisplaySize(this.engine.plate.width, PLATE_HEIGHT);
+
+    // Put the old run's items away and draw the new run's starting position
+    this.draw(1);
+
+    // Start the music over at its normal speed
+    this.audio?.playMusic();
+
+    // Publish the fresh state
+    this.handleEvents(this.engine.snapshot());
+  }
+
+  /**
+   * startReplay() - Plays a recorded run back from the start, in place of the game over screen
+   * Called from React's "Watch Replay" button (and for an imported replay file)
+   */
+  startReplay(replay: Replay) {
+    if (!this.plate) return;
+    this.resumeGame();
+    this.replay = new ReplayPlayer(replay);
+    this.resetRun(replay);  // The recorded run's seed, mode, difficulty, modifiers, lives and game size
+    this.broadcastReplayProgress(true);
+  }
+
+  /**
+   * setReplaySpeed() - Changes the playback speed (0 pauses playback)
+   * Tweens follow along, so effects keep pace with the game
+   */
+  setReplaySpeed(speed: number) {
+    this.replaySpeed = speed;
+    this.tweens.timeScale = this.replay ? speed : 1;
+  }
+
+  /**
+   * seekReplay() - Jumps to a tick of the replay by simulating up to it as fast as possible
+   * Going backwards starts the replay over, since the simulation only runs forwards
+   */
+  seekReplay(tick: number) {
+    if (!this.replay) return;
+    const target = Phaser.Math.Clamp(Math.round(tick), 0, this.replay.replay.ticks);
+    if (target < this.engine.tick) {
+      this.replay.rewind();
+      this.resetRun(this.replay.replay);
+    }
+
+    this.fastForwarding = true;       // No sounds or effects on the way
+    if (this.audio) this.audio.effectsMuted = true;
+    while (this.engine.tick < target && !this.gameOver) this.step();
+    if (this.audio) this.audio.effectsMuted = false;
+    this.fastForwarding = false;
+
+    this.accumulator = 0;
+    this.draw(1);
+    this.broadcastReplayProgress(true);
+  }
+
+  /**
+   * stopReplay() - Stops watching and leaves the scene at the game over screen again
+   */
+  stopReplay() {
+    if (!this.replay) return;
+    this.replay = undefined;
+    this.setReplaySpeed(1);
+    this.gameOver = true;
+    this.audio?.stopMusic();
+  }
+
+  /**
+   * broadcastReplayProgress() - Sends the replay's playback position to React, every few ticks
+   * @param force - Send it even if only a few ticks have passed (seeking, starting, finishing)
+   */
+  private broadcastReplayProgress(force = false) {
+    if (!this.replay) return;
+    const tick = this.engine.tick;
+    if (!force && tick - this.lastProgressTick < REPLAY_PROGRESS_TICKS) return;
+    this.lastProgressTick = tick;
+    this.bus?.emit('replayProgress', { tick, ticks: this.replay.replay.ticks });
+  }
+}
@@ -0,0 +1,169 @@
+// Import Phaser.js - a powerful 2D game framework for HTML5
+import Phaser from 'phaser';
+// Import the asset manifest (atlases, spritesheets, sounds) and fallback colors
+import {
+  ANIMATIONS,
+  ATLASES,
+  BACKGROUND_FRAMES,
+  SOUNDS,
+  SPRITE_FRAMES,
+  SPRITESHEETS
+} from './assets';
+import type { GameSceneData } from './GameScene';
+
+// Size of each cell in the generated fallback textures
+const FALLBACK_CELL = 64;
+
+/**
+ * LoadingScene - Loads every asset with a progress bar, then hands over to GameScene
+ * If anything fails to load, a plain generated texture with the same key and
+ * frame names takes its place, so the game still runs (just less pretty)
+ */
+export default class LoadingScene extends Phaser.Scene {
+  private sceneData?: GameSceneData;  // Passed through untouched to GameScene
+
+  /**
+   * Constructor - sets up the scene with a unique key
+   */
+  constructor() {
+    super({ key: 'LoadingScene' });
+  }
+
+  /**
+   * init() - Receives the data React meant for GameScene
+   * @param data - GameSceneData object passed in from React
+   */
+  init(data: GameSceneData) {
+    this.sceneData = data;
+  }
+
+  /**
+   * preload() - Queues every asset and draws the progress bar
+   */
+  preload() {
+    this.createProgressBar();
+
+    Object.entries(ATLASES).forEach(([key, { textureURL, atlasURL }]) => {
+      this.load.atlas(key, textureURL, atlasURL);
+    });
+    Object.entries(SPRITESHEETS).forEach(([key, { url, frameWidth, frameHeight }]) => {
+      this.load.spritesheet(key, url, { frameWidth, frameHeight });
+    });
+    Object.entries(SOUNDS).forEach(([key, url]) => {
+      this.load.audio(key, url);
+    });
+  }
+
+  /**
+   * create() - Everything has loaded (or failed): patch up the gaps and start the game
+   */
+  create() {
+    this.createFallbackTextures();
+
+    // Build the animations from their spritesheets
+    Object.entries(ANIMATIONS).forEach(([key, { spritesheet, frameRate }]) => {
+      if (this.anims.exists(key)) return;       // Already created by a previous run
+      this.anims.create({
+        key,
+        frames: this.anims.generateFrameNumbers(spritesheet, { start: 0, end: SPRITESHEETS[spritesheet].frames - 1 }),
+        frameRate,
+        hideOnComplete: true
+      });
+    });
+
+    this.scene.start('GameScene', this.sceneData);
+  }
+
+  /**
+   * createProgressBar() - Draws a bar in the middle of the screen that fills as assets load
+   */
+  private createProgressBar() {
+    const { width, height } = this.scale;
+    const barWidth = Math.min(320, width - 40);
+    const x = (width - barWidth) / 2;
+    const y = height / 2;
+
+    const label = this.add.text(width / 2, y - 30, 'Loading...', {
+      fontSize: '20px',
+      color: '#ffffff'
+    }).setOrigin(0.5);
+    const box = this.add.graphics();
+    box.fillStyle(0x000000, 0.3);
+    box.fillRoundedRect(x, y, barWidth, 20, 10);
+    const bar = this.add.graphics();
+
+    this.load.on(Phaser.Loader.Events.PROGRESS, (progress: number) => {
+      bar.clear();
+      bar.fillStyle(0xffffff, 1);
+      bar.fillRoundedRect(x + 4, y + 4, Math.max(0, (barWidth - 8) * progress), 12, 6);
+      label.setText(`Loading... ${Math.round(progress * 100)}%`);
+    });
+  }
+
+  /**
+   * createFallbackTextures() - Generates a stand-in for every texture that didn't load
+   * Sounds need no fallback: the AudioManager simply skips sounds that aren't in the cache
+   */
+  private createFallbackTextures() {
+    // Sprites atlas - a colored circle per item, a solid block for the plate
+    // (the plate is stretched to its display size, so its whole cell is filled)
+    if (!this.textures.exists('sprites')) {
+      this.createAtlasFallback('sprites', SPRITE_FRAMES, (ctx, frame, color, x, y) => {
+        ctx.fillStyle = color;
+        if (frame === 'plate') {
+          ctx.fillRect(x, y, FALLBACK_CELL, FALLBACK_CELL);
+        } else {
+          ctx.beginPath();
+          ctx.arc(x + FALLBACK_CELL / 2, y + FALLBACK_CELL / 2, FALLBACK_CELL / 2 - 6, 0, Math.PI * 2);
+          ctx.fill();
+        }
+      });
+    }
+
+    // Backgrounds atlas - flat colors
+    if (!this.textures.exists('backgrounds')) {
+      this.createAtlasFallback('backgrounds', BACKGROUND_FRAMES, (ctx, _frame, color, x, y) => {
+        ctx.fillStyle = color;
+        ctx.fillRect(x, y, FALLBACK_CELL, FALLBACK_CELL);
+      });
+    }
+
+    // Spritesheets - a dot that grows over the frames
+    Object.entries(SPRITESHEETS).forEach(([key, { frameWidth, frameHeight, frames }]) => {
+      if (this.textures.exists(key)) return;
+      const texture = this.textures.createCanvas(key, frameWidth * frames, frameHeight)!;
+      const ctx = texture.getContext();
+      ctx.fillStyle = '#ffe066';
+      for (let i = 0; i < frames; i++) {
+        ctx.globalAlpha = 1 - i / frames;
+        ctx.beginPath();
+        ctx.arc(i * frameWidth + frameWidth / 2, frameHeight / 2, ((i + 1) / frames) * (frameHeight / 2), 0, Math.PI * 2);
+        ctx.fill();
+        texture.add(i, 0, i * frameWidth, 0, frameWidth, frameHeight);
+      }
+      texture.refresh();
+    });
+  }
+
+  /**
+   * createAtlasFallback() - Draws one cell per frame into a canvas texture and registers the frames
+   * @param key - Texture key to create
+   * @param frames - Frame names mapped to their fallback color
+   * @param draw - Draws a single frame into its cell
+   */
+  private createAtlasFallback(
+    key: string,
+    frames: Record<string, number>,
+    draw: (ctx: CanvasRenderingContext2D, frame: string, color: string, x: number, y: number) => void
+  ) {
+    const names = Object.keys(frames);
+    const texture = this.textures.createCanvas(key, FALLBACK_CELL * names.length, FALLBACK_CELL)!;
+    const ctx = texture.getContext();
+    names.forEach((frame, i) => {
+      const x = i * FALLBACK_CELL;
+      draw(ctx, frame, `#${frames[frame].toString(16).padStart(6, '0')}`, x, 0);
+      texture.add(frame, 0, x, 0, FALLBACK_CELL, FALLBACK_CELL);
+    });
+    texture.refresh();
+  }
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { AchievementTracker, emptyAchievementState } from './achievements';
+
+describe('achievements', () => {
+  it('unlocks a catch goal once, on the catch that reaches it', () => {
+    const tracker = new AchievementTracker(emptyAchievementState());
+    tracker.startRun('classic');
+
+    expect(tracker.caught('apple')).toEqual(['firstApple']);
+    for (let i = 0; i < 48; i++) expect(tracker.caught('goldenApple')).not.toContain('fiftyApples');
+    expect(tracker.caught('apple')).toEqual(['fiftyApples']);
+    expect(tracker.caught('apple')).toEqual([]);
+    expect(tracker.state.progress.fiftyApples).toBe(51);
+  });
+
+  it("doesn't count catching bombs or rotten apples toward an apple goal", () => {
+    const tracker = new AchievementTracker(emptyAchievementState());
+    tracker.startRun('classic');
+    tracker.caught('bomb');
+    tracker.caught('rottenApple');
+    expect(tracker.state.progress.firstApple).toBeUndefined();
+  });
+
+  it('counts one-run goals from zero every run', () => {
+    const tracker = new AchievementTracker(emptyAchievementState());
+    tracker.startRun('classic');
+    for (let i = 0; i < 4; i++) tracker.caught('goldenApple');
+    tracker.startRun('classic');
+    for (let i = 0; i < 4; i++) expect(tracker.caught('goldenApple')).not.toContain('goldRush');
+    expect(tracker.caught('goldenApple')).toContain('goldRush');
+  });
+
+  it('keeps the best combo', () => {
+    const tracker = new AchievementTracker(emptyAchievementState());
+    tracker.startRun('classic');
+    tracker.combo(12);
+    tracker.combo(0);
+    expect(tracker.state.progress.onFire).toBe(12);
+    expect(tracker.combo(20)).toEqual(['onFire']);
+  });
+
+  it("only counts survival time in the goal's modes", () => {
+    const tracker = new AchievementTracker(emptyAchievementState());
+    tracker.startRun('zen');
+    expect(tracker.playTime(200_000)).toEqual([]);
+    tracker.startRun('survival');
+    expect(tracker.playTime(180_000)).toEqual(['survivor']);
+  });
+
+  it('counts days in a row and starts over after a gap', () => {
+    const tracker = new AchievementTracker(emptyAchievementState());
+    const days = ['2026-03-01', '2026-03-02', '2026-03-02', '2026-03-04', '2026-03-05'];
+    days.forEach((day) => tracker.runFinished(day));
+    expect(tracker.state.streak).toBe(2);
+
+    ['2026-03-06', '2026-03-07', '2026-03-08', '2026-03-09'].forEach((day) => tracker.runFinished(day));
+    expect(tracker.runFinished('2026-03-10')).toEqual(['weekStreak']);
+    expect(tracker.state.progress.regular).toBe(10);
+  });
+});
@@ -0,0 +1,238 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import type { ItemId } from './items';
+import type { GameModeId } from './modes';
+
+/**
+ * Achievements - long-term goals unlocked across runs
+ *
+ * Every achievement is plain data: a name, an icon and a goal saying what to
+ * count and how far. AchievementTracker watches what happens in the game
+ * (catches, combos, score, play time, finished runs), keeps the progress
+ * toward every goal and reports the achievements that were just unlocked.
+ * Adding an achievement only takes a new entry in ACHIEVEMENTS.
+ */
+
+// What an achievement counts, and how far it has to get
+export type AchievementGoal =
+  | { type: 'catch'; items: ItemId[]; count: number; inOneRun?: boolean }  // Catch these items (over every run, or in one run)
+  | { type: 'combo'; count: number }                          // Reach a combo in one run
+  | { type: 'survive'; ms: number; modes?: GameModeId[] }     // Keep a run going this long (in these modes)
+  | { type: 'score'; points: number; modes?: GameModeId[] }   // Score this many points in one run (in these modes)
+  | { type: 'runs'; count: number }                           // Finish this many runs
+  | { type: 'streak'; days: number };                         // Finish a run on this many days in a row
+
+export interface Achievement {
+  name: string;         // Display name for the toast and the gallery
+  icon: string;         // Emoji shown next to the name
+  description: string;  // What it takes, in a few words
+  goal: AchievementGoal;
+}
+
+// Items that count as apples for the apple achievements
+const APPLES: ItemId[] = ['apple', 'goldenApple'];
+
+export const ACHIEVEMENTS = {
+  firstApple: {
+    name: 'First Bite',
+    icon: '🍎',
+    description: 'Catch your first apple.',
+    goal: { type: 'catch', items: APPLES, count: 1 }
+  },
+  fiftyApples: {
+    name: 'Apple Picker',
+    icon: '🧺',
+    description: 'Catch 50 apples.',
+    goal: { type: 'catch', items: APPLES, count: 50 }
+  },
+  fiveHundredApples: {
+    name: 'Orchard Keeper',
+    icon: '🌳',
+    description: 'Catch 500 apples.',
+    goal: { type: 'catch', items: APPLES, count: 500 }
+  },
+  goldRush: {
+    name: 'Gold Rush',
+    icon: '⭐',
+    description: 'Catch 5 golden apples in one run.',
+    goal: { type: 'catch', items: ['goldenApple'], count: 5, inOneRun: true }
+  },
+  powerHungry: {
+    name: 'Power Hungry',
+    icon: '✨',
+    description: 'Catch 10 power-ups.',
+    goal: { type: 'catch', items: ['widePlatePowerUp', 'slowMotionPowerUp', 'magnetPowerUp', 'shieldPowerUp'], count: 10 }
+  },
+  onFire: {
+    name: 'On Fire',
+    icon: '🔥',
+    description: 'Reach a 20-catch combo.',
+    goal: { type: 'combo', count: 20 }
+  },
+  unstoppable: {
+    name: 'Unstoppable',
+    icon: '☄️',
+    description: 'Reach a 50-catch combo.',
+    goal: { type: 'combo', count: 50 }
+  },
+  survivor: {
+    name: 'Survivor',
+    icon: '⏱️',
+    description: 'Survive 3 minutes in Classic or Survival.',
+    goal: { type: 'survive', ms: 3 * 60 * 1000, modes: ['classic', 'survival'] }
+  },
+  century: {
+    name: 'Century',
+    icon: '💯',
+    description: 'Score 100 points in one run.',
+    goal: { type: 'score', points: 100 }
+  },
+  regular: {
+    name: 'Regular',
+    icon: '🎮',
+    description: 'Finish 25 runs.',
+    goal: { type: 'runs', count: 25 }
+  },
+  weekStreak: {
+    name: 'Week Streak',
+    icon: '📆',
+    description: 'Play 7 days in a row.',
+    goal: { type: 'streak', days: 7 }
+  }
+} satisfies Record<string, Achievement>;
+
+export type AchievementId = keyof typeof ACHIEVEMENTS;
+
+export const ACHIEVEMENT_IDS = Object.keys(ACHIEVEMENTS) as AchievementId[];
+
+// Everything remembered between sessions
+export interface AchievementState {
+  progress: Partial<Record<AchievementId, number>>;  // How far each goal has got (its best or its total)
+  unlocked: Partial<Record<AchievementId, string>>;  // When each achievement was unlocked (ISO timestamp)
+  lastPlayed: string | null;  // Last day a run was finished ('yyyy-MM-dd'), for the streak
+  streak: number;             // Days in a row a run was finished, up to lastPlayed
+}
+
+export function emptyAchievementState(): AchievementState {
+  return { progress: {}, unlocked: {}, lastPlayed: null, streak: 0 };
+}
+
+/**
+ * goalTarget() - The number a goal's progress has to reach
+ */
+export function goalTarget(goal: AchievementGoal) {
+  switch (goal.type) {
+    case 'survive': return goal.ms;
+    case 'score': return goal.points;
+    case 'streak': return goal.days;
+    default: return goal.count;
+  }
+}
+
+/**
+ * AchievementTracker - progress toward every achievement, fed with what happens in the game
+ * Each method returns the achievements it unlocked (usually none)
+ */
+export class AchievementTracker {
+  private mode: GameModeId = 'classic';    // Mode of the run being played
+  private runCatches = new Map<AchievementId, number>();  // Catches this run, for inOneRun goals
+
+  constructor(readonly state: AchievementState) {}
+
+  /**
+   * startRun() - A new run has started - one-run goals count from zero again
+   */
+  startRun(mode: GameModeId) {
+    this.mode = mode;
+    this.runCatches.clear();
+  }
+
+  /**
+   * caught() - The plate caught an item
+   */
+  caught(item: ItemId) {
+    return this.advance('catch', (goal, id) => {
+      if (!goal.items.includes(item)) return null;
+      if (goal.inOneRun) {
+        const count = (this.runCatches.get(id) ?? 0) + 1;
+        this.runCatches.set(id, count);
+        return count;
+      }
+      return (this.state.progress[id] ?? 0) + 1;
+    });
+  }
+
+  /**
+   * combo() - The combo changed
+   */
+  combo(combo: number) {
+    return this.advance('combo', () => combo);
+  }
+
+  /**
+   * score() - The score changed
+   */
+  score(score: number) {
+    return this.advance('score', (goal) => (this.countsInMode(goal.modes) ? score : null));
+  }
+
+  /**
+   * playTime() - The run has lasted this long (in milliseconds)
+   */
+  playTime(elapsed: number) {
+    return this.advance('survive', (goal) => (this.countsInMode(goal.modes) ? elapsed : null));
+  }
+
+  /**
+   * runFinished() - A run reached the game over screen
+   * @param day - The day it was played ('yyyy-MM-dd')
+   */
+  runFinished(day: string) {
+    const { lastPlayed } = this.state;
+    if (lastPlayed !== day) {
+      const gap = lastPlayed ? differenceInCalendarDays(parseISO(day), parseISO(lastPlayed)) : null;
+      this.state.streak = gap === 1 ? this.state.streak + 1 : 1;
+      this.state.lastPlayed = day;
+    }
+
+    return [
+      ...this.advance('runs', (_, id) => (this.state.progress[id] ?? 0) + 1),
+      ...this.advance('streak', () => this.state.streak, true)
+    ];
+  }
+
+  /**
+   * countsInMode() - Does the run being played count for a goal limited to some modes?
+   */
+  private countsInMode(modes: GameModeId[] | undefined) {
+    return !modes || modes.includes(this.mode);
+  }
+
+  /**
+   * advance() - Updates the progress of every achievement with a goal of one type
+   * @param type - The goal type to update
+   * @param value - The goal's new value (null when this doesn't count toward it)
+   * @param current - Progress is the latest value (a streak can drop), not the best one
+   * @returns the achievements that were just unlocked
+   */
+  private advance<T extends AchievementGoal['type']>(
+    type: T,
+    value: (goal: Extract<AchievementGoal, { type: T }>, id: AchievementId) => number | null,
+    current = false
+  ) {
+    const unlocked: AchievementId[] = [];
+    ACHIEVEMENT_IDS.forEach((id) => {
+      const goal: AchievementGoal = ACHIEVEMENTS[id].goal;
+      if (goal.type !== type) return;
+      const next = value(goal as Extract<AchievementGoal, { type: T }>, id);
+      if (next === null) return;
+
+      const progress = this.state.progress[id] ?? 0;
+      this.state.progress[id] = current ? next : Math.max(progress, next);
+      if (!this.state.unlocked[id] && next >= goalTarget(goal)) {
+        this.state.unlocked[id] = new Date().toISOString();
+        unlocked.push(id);
+      }
+    });
+    return unlocked;
+  }
+}
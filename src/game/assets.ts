@@ -0,0 +1,66 @@
+/**
+ * Asset manifest - every texture, animation and sound the game loads
+ *
+ * The source files live in assets/ at the root of the repo. `npm run assets`
+ * (run by install, dev and build) copies them to public/assets/ with a content
+ * hash in the file name and generates asset-manifest.ts, so the URLs below
+ * change whenever a file changes and browsers can cache them forever.
+ *
+ * LoadingScene loads everything listed here. If a file fails to load, it
+ * draws a simple stand-in texture with the same key and frame names (using
+ * the fallback colors below), so the rest of the game never has to care.
+ */
+
+import { ASSET_MANIFEST } from './asset-manifest';
+
+// Resolve a manifest entry to a URL under the app's base path
+const url = (name: keyof typeof ASSET_MANIFEST) => `${import.meta.env.BASE_URL}${ASSET_MANIFEST[name]}`;
+
+// Texture atlases: one image plus a JSON file describing the frames inside it
+export const ATLASES = {
+  sprites: { textureURL: url('sprites.svg'), atlasURL: url('sprites.json') },
+  backgrounds: { textureURL: url('backgrounds.svg'), atlasURL: url('backgrounds.json') }
+};
+
+// Spritesheets: one image cut into equally sized animation frames
+export const SPRITESHEETS = {
+  sparkle: { url: url('sparkle.svg'), frameWidth: 32, frameHeight: 32, frames: 4 }
+};
+
+// Animations built from the spritesheets once everything is loaded
+export const ANIMATIONS = {
+  sparkle: { spritesheet: 'sparkle' as const, frameRate: 20 }   // Burst shown where an item is caught
+};
+
+// Background music and sound effects
+export const SOUNDS = {
+  music: url('music.wav'),              // Looped for as long as a run lasts
+  catch: url('catch.wav'),
+  miss: url('miss.wav'),
+  powerUp: url('powerup.wav'),
+  gameOver: url('gameover.wav')
+};
+
+export type SoundKey = keyof typeof SOUNDS;
+
+// Frames in the 'sprites' atlas, with the color used if the atlas fails to load
+export const SPRITE_FRAMES = {
+  apple: 0xE53935,
+  'apple-golden': 0xFFD700,
+  'apple-rotten': 0x6B8E23,
+  bomb: 0x222222,
+  heart: 0xFF69B4,
+  'powerup-wide': 0x1E90FF,
+  'powerup-slow': 0x9370DB,
+  'powerup-magnet': 0xC0C0C0,
+  'powerup-shield': 0x00CED1,
+  plate: 0xF4A460
+};
+
+export type SpriteFrame = keyof typeof SPRITE_FRAMES;
+
+// Frames in the 'backgrounds' atlas, with the color used if the atlas fails to load
+export const BACKGROUND_FRAMES = {
+  sky: 0x87CEEB,
+  hills: 0x5DAE45
+};
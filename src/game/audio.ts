@@ -0,0 +1,116 @@
+/**
+ * Audio - background music and sound effects, with the player's volume settings
+ *
+ * Browsers keep audio locked until the page gets a click or key press. The game
+ * is created a moment after "Start Game" is clicked, which is too late, so React
+ * calls unlockAudio() inside the click handler and the game reuses that context.
+ */
+
+// Import Phaser.js - a powerful 2D game framework for HTML5
+import Phaser from 'phaser';
+// Import the sound keys (the assets themselves are loaded by LoadingScene)
+import { SoundKey } from './assets';
+import { AudioSettings, DEFAULT_AUDIO_SETTINGS } from '@/lib/settings';
+
+// Music speeds up from this rate to MUSIC_MAX_RATE as the spawn rate ramps up
+const MUSIC_MIN_RATE = 1;
+const MUSIC_MAX_RATE = 1.5;
+
+// The catch sound goes up a semitone per combo step, topping out an octave higher
+const CATCH_DETUNE_STEP = 100;        // Cents per combo step
+const CATCH_DETUNE_MAX = 1200;
+
+// One audio context for the whole page, shared by every game instance
+let sharedContext: AudioContext | undefined;
+
+/**
+ * unlockAudio() - Creates (or wakes up) the shared audio context
+ * Must be called from a click or key handler so the browser allows playback
+ * @returns The context to hand to Phaser, or undefined if Web Audio isn't supported
+ */
+export function unlockAudio() {
+  if (!sharedContext && typeof AudioContext !== 'undefined') {
+    sharedContext = new AudioContext();
+  }
+  sharedContext?.resume();
+  return sharedContext;
+}
+
+/**
+ * AudioManager - Plays the music and sound effects for a scene
+ * Master volume and mute go through Phaser's global sound manager; the music
+ * and effect volumes are applied to each sound as it plays
+ */
+export class AudioManager {
+  private music?: Phaser.Sound.BaseSound;   // The looping background track, once started
+  effectsMuted = false;                     // Skips sound effects while set (e.g. while a replay seeks)
+
+  /**
+   * Constructor - remembers the scene whose sound manager and cache to use
+   * @param scene - Scene that owns the sounds
+   * @param settings - The player's volume settings
+   */
+  constructor(private scene: Phaser.Scene, private settings: AudioSettings = DEFAULT_AUDIO_SETTINGS) {
+    this.applySettings(settings);
+  }
+
+  /**
+   * applySettings() - Applies new volume settings straight away, music included
+   */
+  applySettings(settings: AudioSettings) {
+    this.settings = settings;
+    this.scene.sound.mute = settings.muted;
+    this.scene.sound.volume = settings.master;
+    (this.music as Phaser.Sound.WebAudioSound | undefined)?.setVolume(settings.music);
+  }
+
+  /**
+   * playMusic() - Starts the background track from the beginning at normal speed
+   * Does nothing if the track failed to load
+   */
+  playMusic() {
+    if (!this.scene.cache.audio.exists('music')) return;
+    this.music ??= this.scene.sound.add('music', { loop: true });
+    this.music.play({ volume: this.settings.music, rate: MUSIC_MIN_RATE });
+  }
+
+  /**
+   * setMusicIntensity() - Speeds the music up as the game gets harder
+   * @param intensity - 0 at the starting spawn rate, 1 once spawning is as fast as it gets
+   */
+  setMusicIntensity(intensity: number) {
+    const rate = MUSIC_MIN_RATE + (MUSIC_MAX_RATE - MUSIC_MIN_RATE) * Phaser.Math.Clamp(intensity, 0, 1);
+    (this.music as Phaser.Sound.WebAudioSound | undefined)?.setRate(rate);
+  }
+
+  pauseMusic() {
+    if (this.music?.isPlaying) this.music.pause();
+  }
+
+  resumeMusic() {
+    if (this.music?.isPaused) this.music.resume();
+  }
+
+  stopMusic() {
+    this.music?.stop();
+  }
+
+  /**
+   * play() - Plays a sound effect at the effects volume, if it loaded
+   * LoadingScene has no fallback for sounds, so a missing one is silently skipped
+   * @param key - Which sound to play
+   * @param config - Extra playback options (rate, detune...)
+   */
+  play(key: SoundKey, config: Phaser.Types.Sound.SoundConfig = {}) {
+    if (this.effectsMuted || !this.scene.cache.audio.exists(key)) return;
+    this.scene.sound.play(key, { ...config, volume: this.settings.sfx });
+  }
+
+  /**
+   * playCatch() - The catch sound, pitched higher the longer the combo
+   * @param combo - Current combo (0 plays the sound at its normal pitch)
+   */
+  playCatch(combo: number) {
+    this.play('catch', { detune: Math.min(Math.max(combo - 1, 0) * CATCH_DETUNE_STEP, CATCH_DETUNE_MAX) });
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Combo scoring rules
+ *
+ * Every point-scoring catch adds one to the combo. Missing an apple, losing
+ * a life or going too long without a catch resets it. The longer the combo,
+ * the bigger the multiplier applied to the points of each catch.
+ */
+
+// A combo ends if nothing is caught for this long (in milliseconds)
+export const COMBO_TIMEOUT_MS = 3000;
+
+// Combo needed for each multiplier step, lowest first
+export const COMBO_THRESHOLDS: { combo: number; multiplier: number }[] = [
+  { combo: 5, multiplier: 2 },
+  { combo: 10, multiplier: 3 },
+  { combo: 20, multiplier: 4 },
+  { combo: 35, multiplier: 5 }
+];
+
+/**
+ * multiplierFor() - The score multiplier for a given combo (1 when below the first threshold)
+ */
+export function multiplierFor(combo: number) {
+  let multiplier = 1;
+  for (const step of COMBO_THRESHOLDS) {
+    if (combo >= step.combo) multiplier = step.multiplier;
+  }
+  return multiplier;
+}
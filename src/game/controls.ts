@@ -0,0 +1,51 @@
+/**
+ * Control schemes - the different ways the player can move the plate
+ *
+ * The movement keys (see the key bindings in input.ts) always work. The scheme
+ * decides what else drives the plate:
+ * - keyboard: nothing else (desktop default)
+ * - pointer:  the plate follows the mouse/finger horizontally, up to the plate's max speed
+ * - drag:     press anywhere and drag; the plate moves by however far the pointer moves
+ * - buttons:  big on-screen left/right buttons (mobile default)
+ */
+
+import { bindingLabel, KeyBindings } from './input';
+
+export type ControlScheme = 'keyboard' | 'pointer' | 'drag' | 'buttons';
+
+// 'auto' picks buttons on phones and the keyboard everywhere else
+export type ControlSchemeSetting = ControlScheme | 'auto';
+
+export const CONTROL_SCHEME_LABELS: Record<ControlSchemeSetting, string> = {
+  auto: 'Auto',
+  keyboard: 'Keyboard',
+  pointer: 'Follow pointer',
+  drag: 'Drag',
+  buttons: 'On-screen buttons'
+};
+
+// Short hint shown in the HUD "Controls" card and on the start screen
+// (the keyboard hint depends on the key bindings, see controlHint())
+export const CONTROL_SCHEME_HINTS: Record<Exclude<ControlScheme, 'keyboard'>, string> = {
+  pointer: 'Move the mouse or finger',
+  drag: 'Drag anywhere',
+  buttons: 'Tap ◀ ▶ buttons'
+};
+
+/**
+ * controlHint() - The controls hint for a scheme, using the current key bindings for the keyboard
+ */
+export function controlHint(scheme: ControlScheme, keyBindings: KeyBindings) {
+  if (scheme !== 'keyboard') return CONTROL_SCHEME_HINTS[scheme];
+  return `${bindingLabel(keyBindings, 'moveLeft')} · ${bindingLabel(keyBindings, 'moveRight')}`;
+}
+
+/**
+ * resolveControlScheme() - Turns the 'auto' setting into an actual scheme
+ * @param setting - What the player picked
+ * @param isMobile - Whether we're on a small (touch) screen
+ */
+export function resolveControlScheme(setting: ControlSchemeSetting, isMobile: boolean): ControlScheme {
+  if (setting !== 'auto') return setting;
+  return isMobile ? 'buttons' : 'keyboard';
+}
@@ -0,0 +1,55 @@
+import { format } from 'date-fns';
+import type { DifficultyPresetId } from './difficulty';
+import type { GameModeId } from './modes';
+import { RUN_MODIFIER_IDS, RUN_MODIFIERS, RunModifier, RunModifierId } from './modifiers';
+import { SeededRandom } from './random';
+
+/**
+ * Daily challenge
+ *
+ * Everyone playing on the same calendar day gets the same run: the seed and
+ * a handful of modifiers are derived from the local date, and the mode and
+ * difficulty are fixed. The first run of the day is the scored attempt;
+ * any runs after it are practice.
+ */
+
+// Every daily challenge is played with these rules, so scores from different days compare
+export const DAILY_MODE: GameModeId = 'classic';
+export const DAILY_DIFFICULTY: DifficultyPresetId = 'normal';
+
+// How many modifiers each day gets
+const DAILY_MODIFIER_COUNT = 2;
+
+export interface DailyChallenge {
+  date: string;                   // Local calendar date, 'yyyy-MM-dd'
+  seed: string;                   // Seed for the run
+  modifiers: RunModifierId[];     // Twists for the day
+}
+
+/**
+ * dailyKey() - The calendar date a challenge belongs to, as 'yyyy-MM-dd' in local time
+ */
+export function dailyKey(date: Date) {
+  return format(date, 'yyyy-MM-dd');
+}
+
+/**
+ * dailyChallenge() - The challenge for a given day (today by default)
+ * Modifiers are drawn from their own generator, so they don't shift the run's item rolls
+ */
+export function dailyChallenge(date = new Date()): DailyChallenge {
+  const key = dailyKey(date);
+  const random = new SeededRandom(`daily-modifiers-${key}`);
+
+  // Draw modifiers without repeats, skipping any that contradict one already drawn
+  const candidates = [...RUN_MODIFIER_IDS];
+  const modifiers: RunModifierId[] = [];
+  while (modifiers.length < DAILY_MODIFIER_COUNT && candidates.length > 0) {
+    const [id] = candidates.splice(Math.floor(random.float() * candidates.length), 1);
+    const group = (RUN_MODIFIERS[id] as RunModifier).group;
+    if (group && modifiers.some((picked) => (RUN_MODIFIERS[picked] as RunModifier).group === group)) continue;
+    modifiers.push(id);
+  }
+
+  return { date: key, seed: `daily-${key}`, modifiers };
+}
@@ -0,0 +1,74 @@
+/**
+ * Difficulty settings
+ *
+ * Everything that makes a run easier or harder lives in a DifficultyConfig.
+ * The start screen picks one of the presets below (or builds a custom one)
+ * and passes it to GameScene.init, which hands it on to GameEngine - so the
+ * rules never hardcode these numbers.
+ */
+
+export interface DifficultyConfig {
+  startInterval: number;  // Milliseconds between spawns at the start of a run
+  rampRate: number;       // How many milliseconds the interval shrinks after each spawn
+  minInterval: number;    // The interval never drops below this
+  baseFallSpeed: number;  // Fall speed in pixels/second at a score of 0
+  speedPerPoint: number;  // Extra fall speed for every point scored
+  plateSpeed: number;     // How fast the plate moves (pixels/second)
+  plateWidth: number;     // Plate width in pixels (before power-ups)
+}
+
+export type DifficultyPresetId = 'easy' | 'normal' | 'hard' | 'insane';
+
+// 'custom' means the player tuned the values by hand
+export type DifficultyId = DifficultyPresetId | 'custom';
+
+// The built-in presets - 'normal' matches the original hardcoded values
+export const DIFFICULTY_PRESETS: Record<DifficultyPresetId, DifficultyConfig> = {
+  easy: {
+    startInterval: 2000,
+    rampRate: 5,
+    minInterval: 800,
+    baseFallSpeed: 100,
+    speedPerPoint: 1,
+    plateSpeed: 350,
+    plateWidth: 140
+  },
+  normal: {
+    startInterval: 1500,
+    rampRate: 10,
+    minInterval: 500,
+    baseFallSpeed: 150,
+    speedPerPoint: 2,
+    plateSpeed: 300,
+    plateWidth: 100
+  },
+  hard: {
+    startInterval: 1200,
+    rampRate: 15,
+    minInterval: 400,
+    baseFallSpeed: 200,
+    speedPerPoint: 3,
+    plateSpeed: 320,
+    plateWidth: 90
+  },
+  insane: {
+    startInterval: 900,
+    rampRate: 20,
+    minInterval: 250,
+    baseFallSpeed: 260,
+    speedPerPoint: 4,
+    plateSpeed: 380,
+    plateWidth: 70
+  }
+};
+
+// Display names for the start screen and leaderboards
+export const DIFFICULTY_LABELS: Record<DifficultyId, string> = {
+  easy: 'Easy',
+  normal: 'Normal',
+  hard: 'Hard',
+  insane: 'Insane',
+  custom: 'Custom'
+};
+
+export const DEFAULT_DIFFICULTY: DifficultyPresetId = 'normal';
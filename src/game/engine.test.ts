@@ -0,0 +1,288 @@
+import { describe, expect, it } from 'vitest';
+import { EngineEvent, FallingItem, GameEngine, INVULNERABILITY_MS, runReplay } from './engine';
+import { DIFFICULTY_PRESETS } from './difficulty';
+import { GameModeId } from './modes';
+import { ITEM_CATALOG, ItemId } from './items';
+import { IDLE_INPUT, ReplayConfig, ReplayRecorder, TICK_MS, TickInput } from './replay';
+
+// A run on the normal preset in an 800x600 game
+function config(overrides: Partial<ReplayConfig> = {}): ReplayConfig {
+  return {
+    seed: 'engine-test',
+    mode: 'classic',
+    difficulty: DIFFICULTY_PRESETS.normal,
+    modifiers: [],
+    lives: 3,
+    width: 800,
+    height: 600,
+    ...overrides
+  };
+}
+
+// Puts an item in play, standing still, at the given position
+function place(engine: GameEngine, item: ItemId, x: number, y: number): FallingItem {
+  const falling: FallingItem = { id: 1000 + engine.items.length, item, size: ITEM_CATALOG[item].size, x, y, prevX: x, prevY: y, vx: 0, vy: 0 };
+  engine.items.push(falling);
+  return falling;
+}
+
+// Steps the engine with the same input a number of times, collecting the events
+function run(engine: GameEngine, ticks: number, input: TickInput = IDLE_INPUT) {
+  const events: EngineEvent[] = [];
+  for (let i = 0; i < ticks; i++) events.push(...engine.step(input));
+  return events;
+}
+
+function types(events: EngineEvent[]) {
+  return events.map((event) => event.type);
+}
+
+describe('difficulty ramp', () => {
+  it('spawns the first item straight away', () => {
+    const engine = new GameEngine(config());
+    expect(types(engine.step(IDLE_INPUT))).toContain('itemSpawned');
+    expect(engine.items).toHaveLength(1);
+  });
+
+  it('shortens the spawn interval after every spawn until it reaches the minimum', () => {
+    // Time attack ramps twice as fast, and nothing but the clock ends it
+    const difficulty = DIFFICULTY_PRESETS.normal;
+    const engine = new GameEngine(config({ mode: 'timeAttack', lives: 0 }));
+
+    const intervals = [engine.appleInterval];
+    while (engine.appleInterval > difficulty.minInterval && !engine.over) {
+      if (types(engine.step(IDLE_INPUT)).includes('itemSpawned')) intervals.push(engine.appleInterval);
+    }
+
+    expect(intervals[0]).toBe(difficulty.startInterval);
+    intervals.slice(1).forEach((interval, i) => {
+      expect(interval).toBe(Math.max(difficulty.minInterval, intervals[i] - 2 * difficulty.rampRate));
+    });
+    expect(engine.appleInterval).toBe(difficulty.minInterval);
+    expect(engine.spawnIntensity).toBe(1);
+  });
+
+  it('waits the current interval between spawns', () => {
+    const engine = new GameEngine(config({ mode: 'zen' }));   // Zen never speeds up
+    const spawnTicks: number[] = [];
+    for (let i = 0; i < 600; i++) {
+      if (types(engine.step(IDLE_INPUT)).includes('itemSpawned')) spawnTicks.push(engine.tick);
+    }
+
+    const intervalTicks = engine.appleInterval / TICK_MS;
+    spawnTicks.slice(1).forEach((tick, i) => {
+      expect(tick - spawnTicks[i]).toBe(Math.floor(intervalTicks) + 1);
+    });
+  });
+});
+
+describe('collisions', () => {
+  it('catches an item touching the plate', () => {
+    const engine = new GameEngine(config());
+    const apple = place(engine, 'apple', engine.plate.x, engine.plate.y);
+
+    const events = engine.step(IDLE_INPUT);
+
+    expect(events).toContainEqual({ type: 'itemCaught', item: apple, gained: 1, score: 1 });
+    expect(engine.items).not.toContain(apple);
+    expect(engine.score).toBe(1);
+    expect(engine.caught).toBe(1);
+  });
+
+  it("doesn't catch an item just past the plate's edge", () => {
+    const engine = new GameEngine(config());
+    const apple = place(engine, 'apple', engine.plate.x + engine.plate.width / 2 + 15, engine.plate.y);
+
+    expect(types(engine.step(IDLE_INPUT))).not.toContain('itemCaught');
+    expect(engine.items).toContain(apple);
+  });
+
+  it('catches an item the plate moves under', () => {
+    const engine = new GameEngine(config());
+    place(engine, 'apple', engine.plate.x + 150, engine.plate.y);
+
+    const events = run(engine, 30, { axis: 1, dash: false, targetX: null });
+
+    expect(types(events)).toContain('itemCaught');
+    expect(engine.score).toBe(1);
+  });
+
+  it('ends a classic run when a bomb is caught', () => {
+    const engine = new GameEngine(config());
+    place(engine, 'bomb', engine.plate.x, engine.plate.y);
+
+    expect(types(engine.step(IDLE_INPUT))).toContain('runOver');
+    expect(engine.over).toBe(true);
+    expect(engine.step(IDLE_INPUT)).toEqual([]);   // Nothing happens after the end
+  });
+
+  it('keeps the plate on screen', () => {
+    const engine = new GameEngine(config());
+    run(engine, 300, { axis: -1, dash: false, targetX: null });
+    expect(engine.plate.x).toBe(engine.plate.width / 2);
+  });
+});
+
+describe('misses', () => {
+  it('costs a life when an apple falls past the bottom', () => {
+    const engine = new GameEngine(config());
+    const apple = place(engine, 'apple', 100, 601);
+
+    const events = engine.step(IDLE_INPUT);
+
+    expect(events).toContainEqual({ type: 'itemMissed', item: apple });
+    expect(events).toContainEqual({ type: 'livesChanged', lives: 2 });
+    expect(events).toContainEqual({ type: 'hurt', lifeLost: true });
+    expect(engine.items).not.toContain(apple);
+  });
+
+  it("doesn't cost a life when a bomb falls past the bottom", () => {
+    const engine = new GameEngine(config());
+    const bomb = place(engine, 'bomb', 100, 601);
+
+    const events = engine.step(IDLE_INPUT);
+
+    expect(types(events)).not.toContain('itemMissed');
+    expect(engine.lives).toBe(3);
+    expect(engine.items).not.toContain(bomb);
+  });
+
+  it('breaks the combo', () => {
+    const engine = new GameEngine(config());
+    place(engine, 'apple', engine.plate.x, engine.plate.y);
+    engine.step(IDLE_INPUT);
+    expect(engine.combo).toBe(1);
+
+    place(engine, 'apple', 100, 601);
+    engine.step(IDLE_INPUT);
+    expect(engine.combo).toBe(0);
+    expect(engine.maxCombo).toBe(1);
+  });
+
+  it('only costs one life while invulnerable', () => {
+    const engine = new GameEngine(config());
+    place(engine, 'apple', 100, 601);
+    place(engine, 'apple', 200, 601);
+    engine.step(IDLE_INPUT);
+    expect(engine.lives).toBe(2);
+
+    run(engine, Math.ceil(INVULNERABILITY_MS / TICK_MS));
+    place(engine, 'apple', 100, 601);
+    engine.step(IDLE_INPUT);
+    expect(engine.lives).toBe(1);
+  });
+
+  it('lets the shield absorb a miss', () => {
+    const engine = new GameEngine(config());
+    place(engine, 'shieldPowerUp', engine.plate.x, engine.plate.y);
+    expect(engine.step(IDLE_INPUT)).toContainEqual({ type: 'powerUpActivated', id: 'shield' });
+
+    place(engine, 'apple', 100, 601);
+    const events = engine.step(IDLE_INPUT);
+
+    expect(types(events)).toContain('shieldUsed');
+    expect(types(events)).not.toContain('hurt');
+    expect(engine.lives).toBe(3);
+  });
+
+  it('ends the run when the last life is lost', () => {
+    const engine = new GameEngine(config({ lives: 1 }));
+    place(engine, 'apple', 100, 601);
+
+    const events = engine.step(IDLE_INPUT);
+
+    expect(types(events)).toContain('runOver');
+    expect(types(events)).not.toContain('hurt');
+    expect(engine.result()).toMatchObject({ mode: 'classic', seed: 'engine-test', score: 0 });
+  });
+
+  it.each<GameModeId>(['timeAttack', 'zen'])('never costs a life in %s', (mode) => {
+    const engine = new GameEngine(config({ mode, lives: 0 }));
+    place(engine, 'apple', 100, 601);
+
+    const events = engine.step(IDLE_INPUT);
+
+    expect(events).toContainEqual({ type: 'hurt', lifeLost: false });
+    expect(engine.over).toBe(false);
+  });
+});
+
+describe('run stats', () => {
+  it('counts catches by column, misses and the fastest fall', () => {
+    const engine = new GameEngine(config());
+    place(engine, 'apple', engine.plate.x, engine.plate.y);
+    place(engine, 'goldenApple', engine.plate.x, engine.plate.y);   // Caught, but not needed
+    place(engine, 'apple', 100, 601);
+    place(engine, 'bomb', 200, 601);   // Letting a bomb drop isn't a miss
+    engine.step(IDLE_INPUT);
+
+    const result = engine.result();
+    expect(result).toMatchObject({ caught: 2, neededCaught: 1, missed: 1 });
+    expect(result.catchHeatmap).toEqual([0, 0, 0, 0, 0, 2, 0, 0, 0, 0]);   // The plate starts in the middle
+    expect(result.peakFallSpeed).toBeGreaterThanOrEqual(DIFFICULTY_PRESETS.normal.baseFallSpeed * 0.5);
+  });
+});
+
+describe('restart', () => {
+  it('starts the run over from scratch', () => {
+    const engine = new GameEngine(config());
+    place(engine, 'apple', engine.plate.x, engine.plate.y);
+    run(engine, 200, { axis: 1, dash: false, targetX: null });
+
+    engine.reset(config());
+
+    expect(engine).toMatchObject({ tick: 0, elapsed: 0, score: 0, combo: 0, maxCombo: 0, lives: 3, caught: 0, over: false });
+    expect(engine.items).toEqual([]);
+    expect(engine.plate).toMatchObject({ x: 400, width: DIFFICULTY_PRESETS.normal.plateWidth });
+    expect(engine.appleInterval).toBe(DIFFICULTY_PRESETS.normal.startInterval);
+  });
+
+  it('plays the same seed out the same way', () => {
+    const spawns = (engine: GameEngine) => run(engine, 1200)
+      .flatMap((event) => (event.type === 'itemSpawned' ? [[event.item.item, event.item.x]] : []));
+
+    const engine = new GameEngine(config());
+    const first = spawns(engine);
+    engine.reset(config());
+
+    expect(spawns(engine)).toEqual(first);
+    expect(spawns(new GameEngine(config({ seed: 'another-seed' })))).not.toEqual(first);
+  });
+
+  it('reports the fresh state', () => {
+    const engine = new GameEngine(config());
+    place(engine, 'apple', 100, 601);
+    engine.step(IDLE_INPUT);
+    engine.reset(config());
+
+    expect(engine.snapshot()).toEqual(expect.arrayContaining([
+      { type: 'scoreChanged', score: 0 },
+      { type: 'livesChanged', lives: 3 },
+      { type: 'comboChanged', combo: 0, multiplier: 1 }
+    ]));
+  });
+});
+
+describe('replays', () => {
+  it('plays a recorded run back to the same score', () => {
+    const engine = new GameEngine(config());
+    const recorder = new ReplayRecorder(engine.config);
+    while (!engine.over && engine.tick < 3000) {
+      // Sweep from side to side, dashing now and then
+      const input: TickInput = {
+        axis: Math.floor(engine.tick / 90) % 2 === 0 ? 1 : -1,
+        dash: engine.tick % 200 === 0,
+        targetX: null
+      };
+      recorder.record(engine.tick + 1, input);
+      engine.step(input);
+    }
+    const replay = recorder.finish(engine.tick, engine.score);
+
+    const replayed = runReplay(replay);
+
+    expect(replayed.tick).toBe(replay.ticks);
+    expect(replayed.score).toBe(replay.score);
+    expect(replayed.result()).toEqual(engine.result());
+  });
+});
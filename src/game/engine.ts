@@ -0,0 +1,705 @@
+import type { GameEventMap } from './events';
+import { ITEM_CATALOG, ItemCatchContext, ItemId, pickItem } from './items';
+import { PowerUpId, PowerUpTracker } from './powerups';
+import { DifficultyConfig } from './difficulty';
+import { GAME_MODES, GameMode } from './modes';
+import { applyModifierDifficulty, applyModifierWeight } from './modifiers';
+import { SeededRandom } from './random';
+import { Replay, ReplayConfig, ReplayPlayer, TICK_MS, TickInput } from './replay';
+import { COMBO_TIMEOUT_MS, multiplierFor } from './combo';
+
+/**
+ * Game engine - the rules of a run, with no Phaser in sight
+ *
+ * The engine owns everything that decides how a run plays: the plate, the
+ * falling items, spawning and the difficulty ramp, catches and misses,
+ * lives, combos, power-ups and the game mode's end conditions. It advances
+ * one fixed tick at a time from a TickInput and reports what happened as a
+ * list of events. GameScene draws the engine's state and turns the events
+ * into sounds, effects and messages for React; the tests drive it directly.
+ *
+ * Positions are in game pixels, with (0, 0) at the top left. The plate and
+ * items are positioned by their centers.
+ */
+
+// After losing a life the player can't lose another one for this long (in milliseconds)
+export const INVULNERABILITY_MS = 1000;
+
+// Plate height in pixels (the width comes from the difficulty config)
+export const PLATE_HEIGHT = 20;
+
+// Most items that can be falling at once (a spawn is skipped while the screen is this full)
+export const MAX_ITEMS = 64;
+
+// Catches are counted in this many equal-width columns across the game, for the catch heatmap
+export const HEATMAP_COLUMNS = 10;
+
+// Layout - everything else is derived from the game size, which follows the window
+const PLATE_BOTTOM_OFFSET = 50;       // Plate sits this far above the bottom edge
+const SPAWN_PADDING = 50;             // Items never spawn closer than this to the side edges
+const SPAWN_Y = -50;                  // Items start just above the top edge so they fall into view
+
+// Dash - a short burst of speed, on the 'dash' action
+const DASH_SPEED_MULTIPLIER = 3;      // Dashing moves the plate this many times faster
+const DASH_MS = 150;                  // How long a dash lasts
+const DASH_COOLDOWN_MS = 600;         // Time from the start of one dash until the next is allowed
+
+// Power-up tuning
+const WIDE_PLATE_BONUS = 0.5;         // Each wide plate stack adds 50% to the plate width
+const SLOW_MOTION_SCALE = 0.5;        // Slow motion halves fall speed and spawn rate
+const MAGNET_RADIUS = 250;            // Items closer than this are pulled toward the plate
+const MAGNET_PULL = 3;                // Horizontal speed per pixel of distance to the plate
+const MAGNET_MAX_SPEED = 250;         // Fastest an item can be pulled sideways
+const POWER_UP_BROADCAST_MS = 100;    // How often the HUD countdown is refreshed
+
+// Length of a tick in seconds, for moving things by their velocity
+const TICK_SECONDS = TICK_MS / 1000;
+
+// Something that moves - where it is, where it was a tick ago (for drawing in between) and how fast it goes
+interface Moving {
+  x: number;
+  y: number;
+  prevX: number;
+  prevY: number;
+  vx: number;           // Pixels per second
+  vy: number;
+}
+
+export interface EnginePlate extends Moving {
+  width: number;        // Current width, power-ups included
+}
+
+export interface FallingItem extends Moving {
+  id: number;           // Unique within the run, so renderers can tell items apart
+  item: ItemId;
+  size: number;         // Width and height in pixels
+}
+
+// Everything the engine reports, by event name
+export interface EngineEventMap {
+  scoreChanged: GameEventMap['scoreChanged'];
+  comboChanged: GameEventMap['comboChanged'];
+  livesChanged: GameEventMap['livesChanged'];
+  powerUpsChanged: GameEventMap['powerUpsChanged'];
+  clockChanged: GameEventMap['clockChanged'];
+  playTimeChanged: GameEventMap['playTimeChanged'];
+  itemSpawned: { item: FallingItem };
+  itemCaught: { item: FallingItem; gained: number; score: number };  // gained - points the catch was worth, combo included
+  itemMissed: { item: FallingItem };                  // An item the player needed fell past the bottom
+  shieldUsed: Record<string, never>;                  // The shield absorbed a miss
+  hurt: { lifeLost: boolean };                        // A miss, a bad catch or a bomb that didn't end the run
+  powerUpActivated: { id: PowerUpId };
+  runOver: Record<string, never>;                     // The game mode ended the run (or the player finished it)
+}
+
+export type EngineEventName = keyof EngineEventMap;
+
+// One event, tagged with its name
+export type EngineEvent = { [K in EngineEventName]: { type: K } & EngineEventMap[K] }[EngineEventName];
+
+// The run's summary for the game over screen (the replay is added by whoever recorded it)
+export type RunResult = Omit<GameEventMap['gameOver'], 'replay'>;
+
+/**
+ * GameEngine - one run of the game, advanced a tick at a time
+ * reset() starts a new run (the constructor starts the first one)
+ */
+export class GameEngine {
+  // The run's rules
+  config!: ReplayConfig;              // Seed, mode, difficulty (before modifiers), modifiers, lives and game size
+  private mode!: GameMode;
+  private difficulty!: DifficultyConfig;   // With modifiers applied
+  private random!: SeededRandom;           // Item types and spawn positions come from here
+
+  // World
+  private width = 0;
+  private height = 0;
+  plate!: EnginePlate;
+  items: FallingItem[] = [];
+  private nextItemId = 1;
+
+  // Run state
+  tick = 0;                           // Ticks simulated this run
+  elapsed = 0;                        // Play time in milliseconds
+  score = 0;
+  combo = 0;                          // Scoring catches in a row since the last miss
+  maxCombo = 0;                       // Longest combo this run
+  lives = 0;
+  caught = 0;                         // Items caught this run
+  neededCaught = 0;                   // Of those, items the player needed (missing them costs a life)
+  missed = 0;                         // Items the player needed that hit the ground
+  peakFallSpeed = 0;                  // Fastest an item has fallen this run (pixels per second)
+  catchHeatmap: number[] = [];        // Catches per column of the game (HEATMAP_COLUMNS of them), left to right
+  over = false;                       // Has the run ended?
+  skippedSpawns = 0;                  // Spawns skipped because MAX_ITEMS were already falling
+  appleInterval = 0;                  // Current time between spawns (in milliseconds)
+  private lastSpawnTick = 0;          // Tick the last item was spawned on (0 before the first)
+  private lastCatchTime = 0;          // When the combo was last extended (for the timeout)
+  private bombCaught = false;         // Has a bomb been caught this run? (only some modes end on it)
+  private invulnerableUntil = 0;      // Misses before this time don't cost a life
+  private lastClockSecond = 0;        // Last whole second of a timed run reported
+  private lastPlaySecond = 0;         // Last whole second of play time reported
+  private lastDirection = 1;          // Last way the plate was steered (-1 / 1), for dashing from a standstill
+  private dashDirection = 0;          // Which way the current dash goes
+  private dashUntil = 0;              // The current dash lasts until this time
+  private dashReadyAt = 0;            // No new dash before this time
+  private powerUps = new PowerUpTracker();
+  private lastPowerUpBroadcast = 0;   // When the HUD countdown was last reported
+
+  // Events of the tick in progress, handed out by step()
+  private events: EngineEvent[] = [];
+
+  // Actions the item catalog's catch handlers can perform on the run
+  private itemContext: ItemCatchContext = {
+    addScore: (points) => this.addScore(points),
+    loseLife: () => this.loseLife(),
+    gainLife: () => this.gainLife(),
+    endGame: () => this.catchBomb(),
+    activatePowerUp: (id) => this.activatePowerUp(id)
+  };
+
+  constructor(config: ReplayConfig) {
+    this.reset(config);
+  }
+
+  /**
+   * reset() - Starts a new run from scratch
+   * The same config (seed included) always plays out the same way for the same input
+   */
+  reset(config: ReplayConfig) {
+    this.config = config;
+    this.mode = GAME_MODES[config.mode];
+    this.difficulty = applyModifierDifficulty(config.difficulty, config.modifiers);
+    this.random = new SeededRandom(config.seed);
+    this.width = config.width;
+    this.height = config.height;
+
+    const x = config.width / 2;
+    const y = config.height - PLATE_BOTTOM_OFFSET;
+    this.plate = { x, y, prevX: x, prevY: y, vx: 0, vy: 0, width: this.difficulty.plateWidth };
+    this.items = [];
+    this.nextItemId = 1;
+
+    this.tick = 0;
+    this.elapsed = 0;
+    this.score = 0;
+    this.combo = 0;
+    this.maxCombo = 0;
+    this.lives = config.lives;
+    this.caught = 0;
+    this.neededCaught = 0;
+    this.missed = 0;
+    this.peakFallSpeed = 0;
+    this.catchHeatmap = new Array(HEATMAP_COLUMNS).fill(0);
+    this.over = false;
+    this.skippedSpawns = 0;
+    this.appleInterval = this.mode.firstInterval(this.difficulty);  // Start at the mode's spawn rate
+    this.lastSpawnTick = 0;
+    this.lastCatchTime = 0;
+    this.bombCaught = false;
+    this.invulnerableUntil = 0;
+    this.lastClockSecond = 0;
+    this.lastPlaySecond = 0;
+    this.lastDirection = 1;
+    this.dashUntil = 0;
+    this.dashReadyAt = 0;
+    this.powerUps.clear();
+    this.lastPowerUpBroadcast = 0;
+    this.events = [];
+  }
+
+  /**
+   * modifiers - The run's modifiers
+   */
+  private get modifiers() {
+    return this.config.modifiers;
+  }
+
+  /**
+   * spawnIntensity - How far the spawn rate has ramped, from 0 (start) to 1 (the difficulty's minimum interval)
+   */
+  get spawnIntensity() {
+    const startInterval = this.mode.firstInterval(this.difficulty);
+    const range = startInterval - this.difficulty.minInterval;
+    return range > 0 ? (startInterval - this.appleInterval) / range : 0;
+  }
+
+  /**
+   * snapshot() - Events describing the whole current state (score, lives, combo, power-ups, clock),
+   * for a UI that has just started listening
+   */
+  snapshot(): EngineEvent[] {
+    this.events = [];
+    this.events.push({ type: 'scoreChanged', score: this.score });
+    this.events.push({ type: 'livesChanged', lives: this.lives });
+    this.events.push({ type: 'comboChanged', combo: this.combo, multiplier: multiplierFor(this.combo) });
+    this.reportPowerUps();
+    this.reportClock(true);
+    return this.flush();
+  }
+
+  /**
+   * step() - Advances the run by one tick: input, spawning, power-ups, movement, catches and misses
+   * Everything happens in the same order every tick, so a run can be replayed exactly
+   * @param input - What the player did this tick
+   * @returns what happened during the tick
+   */
+  step(input: TickInput): EngineEvent[] {
+    if (this.over) return [];
+    this.tick += 1;
+
+    // Advance play time (a timed run never goes past its limit, so every run lasts exactly as long)
+    this.elapsed += TICK_MS;
+    if (this.mode.timeLimit !== null) this.elapsed = Math.min(this.elapsed, this.mode.timeLimit);
+    const time = this.elapsed;
+
+    // Report play time every second; timed modes also tick the clock and stop when time is up
+    this.reportPlayTime();
+    this.reportClock();
+    if (this.checkRunOver()) return this.flush();
+
+    // Move the plate (dash first, then movement actions, then a pointer target)
+    if (input.dash) this.dash(input.axis);
+    this.steerPlate(input);
+
+    // Spawn items at intervals counted in ticks, so it's the same on any machine
+    // The first item spawns straight away; slow motion stretches the interval
+    const intervalTicks = this.appleInterval / this.speedScale / TICK_MS;
+    if (this.lastSpawnTick === 0 || this.tick - this.lastSpawnTick > intervalTicks) {
+      this.spawnItem();
+      this.lastSpawnTick = this.tick;
+
+      // Progressive difficulty - the mode decides how quickly spawns speed up
+      // (usually by the ramp rate each time, never faster than the difficulty's minimum interval)
+      this.appleInterval = this.mode.nextInterval(this.appleInterval, this.difficulty);
+    }
+
+    // Run power-up timers and continuous effects (magnet pull)
+    this.updatePowerUps(time);
+
+    // Combo timeout - the combo ends if the player goes too long without a catch
+    if (this.combo > 0 && time - this.lastCatchTime > COMBO_TIMEOUT_MS) {
+      this.setCombo(0);
+    }
+
+    // Move everything by one tick
+    this.movePlate();
+    this.items.forEach((item) => move(item));
+
+    // Catch whatever the plate overlaps
+    this.removeItems((item) => overlaps(this.plate, item)).forEach((item) => this.catchItem(item));
+
+    // Items past the bottom are missed; anything that ended up past the sides (it shouldn't)
+    // is dropped without counting as a miss
+    if (!this.over) {
+      this.removeItems((item) => item.y > this.height).forEach((item) => {
+        if (!this.over) this.missItem(item);
+      });
+      this.removeItems((item) => item.x < -item.size || item.x > this.width + item.size);
+    }
+
+    return this.flush();
+  }
+
+  /**
+   * finish() - Ends the run now and keeps its score (the only way a Zen run ends)
+   */
+  finish(): EngineEvent[] {
+    if (!this.over) this.endRun();
+    return this.flush();
+  }
+
+  /**
+   * result() - The run's summary for the game over screen
+   */
+  result(): RunResult {
+    return {
+      mode: this.config.mode,
+      seed: this.config.seed,
+      score: this.score,
+      duration: this.elapsed,
+      maxCombo: this.maxCombo,
+      caught: this.caught,
+      neededCaught: this.neededCaught,
+      missed: this.missed,
+      peakFallSpeed: Math.round(this.peakFallSpeed),
+      catchHeatmap: [...this.catchHeatmap]
+    };
+  }
+
+  /**
+   * flush() - Hands out the events collected so far and starts a new list
+   */
+  private flush() {
+    const events = this.events;
+    this.events = [];
+    return events;
+  }
+
+  /**
+   * emit() - Notes an event for the tick in progress
+   */
+  private emit<K extends EngineEventName>(type: K, payload: EngineEventMap[K]) {
+    this.events.push({ type, ...payload } as EngineEvent);
+  }
+
+  /**
+   * removeItems() - Takes the items that pass a test out of play, keeping the rest in order
+   * @returns the removed items, in the order they spawned
+   */
+  private removeItems(test: (item: FallingItem) => boolean) {
+    const removed: FallingItem[] = [];
+    this.items = this.items.filter((item) => {
+      if (!test(item)) return true;
+      removed.push(item);
+      return false;
+    });
+    return removed;
+  }
+
+  /**
+   * dash() - Starts a short burst of speed in the direction the plate is steering
+   * (or the way it last moved, when standing still)
+   * @param axis - This tick's steering
+   */
+  private dash(axis: number) {
+    if (this.elapsed < this.dashReadyAt) return;
+    this.dashDirection = axis !== 0 ? Math.sign(axis) : this.lastDirection;
+    this.dashUntil = this.elapsed + DASH_MS;
+    this.dashReadyAt = this.elapsed + DASH_COOLDOWN_MS;
+  }
+
+  /**
+   * steerPlate() - Sets the plate's speed from the input (or the dash in progress)
+   */
+  private steerPlate(input: TickInput) {
+    const speed = this.difficulty.plateSpeed;
+
+    // A dash overrides everything else until it ends
+    if (this.elapsed < this.dashUntil) {
+      this.plate.vx = this.dashDirection * speed * DASH_SPEED_MULTIPLIER;
+      return;
+    }
+
+    // Movement actions (an analog stick can steer at part speed), otherwise a pointer target
+    if (input.axis !== 0) {
+      this.plate.vx = input.axis * speed;
+      this.lastDirection = Math.sign(input.axis);
+    } else if (input.targetX !== null) {
+      // Close targets are reached in a single tick; far ones take as long as the plate speed allows
+      const distance = input.targetX - this.plate.x;
+      if (Math.abs(distance) < 1) {
+        this.plate.vx = 0;             // Close enough - don't jitter
+      } else {
+        this.plate.vx = clamp(distance / TICK_SECONDS, -speed, speed);
+        this.lastDirection = Math.sign(distance);
+      }
+    } else {
+      this.plate.vx = 0;               // Stop moving if nothing is steering
+    }
+  }
+
+  /**
+   * movePlate() - Moves the plate by its speed, keeping it on screen
+   */
+  private movePlate() {
+    move(this.plate);
+    const half = this.plate.width / 2;
+    this.plate.x = clamp(this.plate.x, half, Math.max(half, this.width - half));
+  }
+
+  /**
+   * spawnItem() - Drops a new item at a random horizontal position
+   * The item type is chosen from the catalog using each entry's spawn weight
+   */
+  private spawnItem() {
+    const item = pickItem(
+      this.random.float(),
+      // The mode and modifiers can shift the odds
+      (id, type) => applyModifierWeight(id, this.mode.itemWeight(id, type, this.elapsed), this.modifiers)
+    );
+    const type = ITEM_CATALOG[item];
+
+    // A random x position within the screen bounds (with some padding)
+    const x = Math.round(this.random.between(SPAWN_PADDING, Math.max(SPAWN_PADDING, this.width - SPAWN_PADDING)));
+
+    // The screen is already packed - skip this one
+    if (this.items.length >= MAX_ITEMS) {
+      this.skippedSpawns += 1;
+      return;
+    }
+
+    // Fall speed grows with the score for progressive difficulty:
+    // base speed + (score * speed per point), scaled by the item's own speed modifier and slow motion
+    const fallSpeed = this.difficulty.baseFallSpeed + this.score * this.difficulty.speedPerPoint;
+    const falling: FallingItem = {
+      id: this.nextItemId++,
+      item,
+      size: type.size,
+      x,
+      y: SPAWN_Y,
+      prevX: x,
+      prevY: SPAWN_Y,
+      vx: 0,
+      vy: fallSpeed * type.speedModifier * this.speedScale
+    };
+    this.items.push(falling);
+    this.peakFallSpeed = Math.max(this.peakFallSpeed, falling.vy);
+    this.emit('itemSpawned', { item: falling });
+  }
+
+  /**
+   * catchItem() - The plate caught an item; its catalog entry decides what the catch does
+   */
+  private catchItem(item: FallingItem) {
+    this.caught += 1;
+    if (ITEM_CATALOG[item.item].missCostsLife) this.neededCaught += 1;
+    const column = Math.floor((item.x / this.width) * HEATMAP_COLUMNS);
+    this.catchHeatmap[clamp(column, 0, HEATMAP_COLUMNS - 1)] += 1;
+    const scoreBefore = this.score;
+    ITEM_CATALOG[item.item].onCatch(this.itemContext);
+    this.emit('itemCaught', { item, gained: this.score - scoreBefore, score: this.score });
+  }
+
+  /**
+   * missItem() - An item fell past the bottom
+   * It only costs a life if its catalog entry says so
+   * (letting a bomb or a rotten apple drop is exactly what the player should do)
+   */
+  private missItem(item: FallingItem) {
+    if (!ITEM_CATALOG[item.item].missCostsLife) return;
+
+    this.missed += 1;
+    this.setCombo(0);                   // A miss breaks the combo, even if the shield saves the life
+    this.emit('itemMissed', { item });
+
+    // An active shield absorbs the miss instead of costing a life
+    if (this.powerUps.consume('shield')) {
+      this.emit('shieldUsed', {});
+      this.reportPowerUps();
+      return;
+    }
+    this.loseLife();
+  }
+
+  /**
+   * speedScale - Multiplier applied to fall speeds and spawn rate
+   * 1 normally, lower while slow motion is active
+   */
+  private get speedScale() {
+    return this.powerUps.isActive('slowMotion') ? SLOW_MOTION_SCALE : 1;
+  }
+
+  /**
+   * activatePowerUp() - Starts (or stacks) a power-up and applies its effect
+   */
+  private activatePowerUp(id: PowerUpId) {
+    const previousScale = this.speedScale;
+    this.powerUps.activate(id, this.elapsed);
+    this.applyPowerUpEffects(previousScale);
+    this.reportPowerUps();
+    this.emit('powerUpActivated', { id });
+  }
+
+  /**
+   * updatePowerUps() - Expires power-ups and runs the magnet
+   * @param time - Current play time in milliseconds
+   */
+  private updatePowerUps(time: number) {
+    const previousScale = this.speedScale;
+    if (this.powerUps.expire(time).length > 0) {
+      this.applyPowerUpEffects(previousScale);
+      this.reportPowerUps();
+    } else if (this.powerUps.count > 0 &&
+               time - this.lastPowerUpBroadcast > POWER_UP_BROADCAST_MS) {
+      this.reportPowerUps();          // Keep the HUD countdown ticking
+    }
+
+    // Magnet - pull nearby helpful items sideways toward the plate
+    if (this.powerUps.isActive('magnet')) {
+      this.items.forEach((item) => {
+        if (!ITEM_CATALOG[item.item].magnetic) return;
+        const dx = this.plate.x - item.x;
+        const distance = Math.hypot(dx, this.plate.y - item.y);
+        if (distance < MAGNET_RADIUS) {
+          item.vx = clamp(dx * MAGNET_PULL, -MAGNET_MAX_SPEED, MAGNET_MAX_SPEED);
+        }
+      });
+    }
+  }
+
+  /**
+   * applyPowerUpEffects() - Brings the plate and falling items in line with the active power-ups
+   * Called whenever a power-up starts, stacks or expires
+   * @param previousScale - speedScale before the change, used to rescale falling items
+   */
+  private applyPowerUpEffects(previousScale: number) {
+    // Wide plate - each stack makes the plate wider
+    this.plate.width = this.difficulty.plateWidth * (1 + WIDE_PLATE_BONUS * this.powerUps.stacks('widePlate'));
+
+    // Slow motion - rescale everything already falling when it starts or stops
+    // Magnet - once it's gone, items stop drifting sideways and fall straight again
+    const ratio = this.speedScale / previousScale;
+    const magnetActive = this.powerUps.isActive('magnet');
+    this.items.forEach((item) => {
+      item.vx *= ratio;
+      item.vy *= ratio;
+      if (!magnetActive) item.vx = 0;
+    });
+  }
+
+  /**
+   * reportPowerUps() - Reports the active power-ups and their countdowns
+   */
+  private reportPowerUps() {
+    this.lastPowerUpBroadcast = this.elapsed;
+    this.emit('powerUpsChanged', { active: this.powerUps.snapshot(this.elapsed) });
+  }
+
+  /**
+   * loseLife() - Takes a life, unless the player is still invulnerable
+   * from a previous hit. The run only ends once no lives are left.
+   */
+  private loseLife() {
+    const time = this.elapsed;
+    this.setCombo(0);                   // Getting hurt always breaks the combo
+
+    // Modes without lives - the broken combo is the only cost
+    if (this.mode.lives === null) {
+      this.emit('hurt', { lifeLost: false });
+      return;
+    }
+
+    // Still recovering from the last hit - this one is free
+    if (time < this.invulnerableUntil) return;
+
+    this.lives -= 1;
+    this.invulnerableUntil = time + INVULNERABILITY_MS;
+    this.emit('livesChanged', { lives: this.lives });
+
+    if (this.checkRunOver()) return;    // Out of lives - the run is over (in most modes)
+    this.emit('hurt', { lifeLost: true });
+  }
+
+  /**
+   * catchBomb() - The plate caught a bomb: most modes end the run, the others
+   * just break the combo
+   */
+  private catchBomb() {
+    this.bombCaught = true;
+    this.setCombo(0);
+    if (!this.checkRunOver()) this.emit('hurt', { lifeLost: false });
+  }
+
+  /**
+   * gainLife() - Gives back a life, but never more than the run started with
+   */
+  private gainLife() {
+    if (this.lives >= this.config.lives) return;
+    this.lives += 1;
+    this.emit('livesChanged', { lives: this.lives });
+  }
+
+  /**
+   * addScore() - Changes the score
+   * Gaining points extends the combo and is scaled by the combo multiplier;
+   * losing points breaks the combo
+   * @param points - Points to add; negative values remove points (score never drops below 0)
+   */
+  private addScore(points: number) {
+    if (points > 0) {
+      this.setCombo(this.combo + 1);
+      this.lastCatchTime = this.elapsed;
+      points *= multiplierFor(this.combo);
+    } else {
+      this.setCombo(0);
+    }
+    this.score = Math.max(0, this.score + points);
+    this.emit('scoreChanged', { score: this.score });
+  }
+
+  /**
+   * setCombo() - Updates the combo (and the best combo this run)
+   */
+  private setCombo(combo: number) {
+    if (combo === this.combo) return;
+    this.combo = combo;
+    this.maxCombo = Math.max(this.maxCombo, combo);
+    this.emit('comboChanged', { combo, multiplier: multiplierFor(combo) });
+  }
+
+  /**
+   * checkRunOver() - Asks the game mode whether the run is lost (or out of time) and ends it if so
+   * @returns true if the run is over
+   */
+  private checkRunOver() {
+    if (this.over) return true;
+    if (!this.mode.isOver({ elapsed: this.elapsed, lives: this.lives, bombCaught: this.bombCaught })) return false;
+    this.endRun();
+    return true;
+  }
+
+  /**
+   * endRun() - Ends the run
+   */
+  private endRun() {
+    this.over = true;
+    this.emit('runOver', {});
+  }
+
+  /**
+   * reportPlayTime() - Reports how long the run has lasted, whenever a whole second passes
+   */
+  private reportPlayTime() {
+    const second = Math.floor(this.elapsed / 1000);
+    if (second === this.lastPlaySecond) return;
+    this.lastPlaySecond = second;
+    this.emit('playTimeChanged', { elapsed: this.elapsed });
+  }
+
+  /**
+   * reportClock() - Reports the time left in a timed mode, whenever the seconds change
+   * @param force - Report it even if the seconds haven't changed
+   */
+  private reportClock(force = false) {
+    if (this.mode.timeLimit === null) return;
+    const remaining = this.mode.timeLimit - this.elapsed;
+    const second = Math.ceil(remaining / 1000);
+    if (!force && second === this.lastClockSecond) return;
+    this.lastClockSecond = second;
+    this.emit('clockChanged', { remaining });
+  }
+}
+
+/**
+ * runReplay() - Plays a replay through a fresh engine as fast as possible
+ * The engine runs at the size the replay was recorded at, so the result is exact
+ * @returns the engine at the end of the replay (its score is the replay's real score)
+ */
+export function runReplay(replay: Replay) {
+  const engine = new GameEngine(replay);
+  const player = new ReplayPlayer(replay);
+  while (engine.tick < replay.ticks && !engine.over) {
+    engine.step(player.inputAt(engine.tick + 1));
+  }
+  return engine;
+}
+
+// Moves something by one tick of its velocity
+function move(moving: Moving) {
+  moving.prevX = moving.x;
+  moving.prevY = moving.y;
+  moving.x += moving.vx * TICK_SECONDS;
+  moving.y += moving.vy * TICK_SECONDS;
+}
+
+// Do the plate and an item touch? (edges that only meet don't count)
+function overlaps(plate: EnginePlate, item: FallingItem) {
+  const half = item.size / 2;
+  return Math.abs(plate.x - item.x) < plate.width / 2 + half &&
+         Math.abs(plate.y - item.y) < PLATE_HEIGHT / 2 + half;
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(Math.max(value, min), max);
+}
@@ -0,0 +1,85 @@
+import type { ItemId } from './items';
+import type { ActivePowerUp } from './powerups';
+import type { GameModeId } from './modes';
+import type { Replay } from './replay';
+
+/**
+ * Typed event bus shared between the Phaser scene and the React UI
+ *
+ * GameScene publishes everything interesting that happens during a run
+ * (score changes, apples spawning, catches, misses, game over, restarts)
+ * and any React component can subscribe through the useGameEvent hook.
+ * Because events are delivered synchronously, the UI updates in the same
+ * frame the scene changes instead of waiting for a polling loop.
+ */
+
+// Map of every event name to the payload it carries
+export interface GameEventMap {
+  scoreChanged: { score: number };                  // The score changed (catch, penalty or reset)
+  appleSpawned: { x: number; y: number; item: ItemId };  // A new item appeared at the top
+  appleCaught: { x: number; y: number; score: number; item: ItemId }; // The plate caught an item
+  appleMissed: { x: number; item: ItemId };         // An item the player needed fell past the bottom
+  comboChanged: { combo: number; multiplier: number };  // The combo grew, or was broken
+  livesChanged: { lives: number };                  // Lives were lost, gained or refilled on restart
+  powerUpsChanged: { active: ActivePowerUp[] };     // Power-ups started, stacked, expired or ticked down
+  pauseChanged: { paused: boolean };                // The game was paused or resumed
+  clockChanged: { remaining: number };              // Time left in a timed mode (ms), once a second
+  playTimeChanged: { elapsed: number };             // How long the run has lasted (ms), once a second
+  gameOver: {                                       // The run has ended (duration in ms)
+    mode: GameModeId;
+    seed: string;                                   // Seed the run was played with
+    score: number;
+    duration: number;
+    maxCombo: number;
+    caught: number;
+    neededCaught: number;                           // Of those, items the player needed (missing them costs a life)
+    missed: number;                                 // Items the player needed that hit the ground
+    peakFallSpeed: number;                          // Fastest an item fell (pixels per second)
+    catchHeatmap: number[];                         // Catches per column of the game, left to right
+    replay: Replay;                                 // Everything needed to watch the run again
+  };
+  replayProgress: { tick: number; ticks: number };  // Where playback of a replay is (in simulation ticks)
+  replayFinished: { score: number; expectedScore: number };  // A replay reached its end (the scores differ if it didn't play back exactly)
+  restarted: Record<string, never>;                 // A new run has started
+}
+
+export type GameEventName = keyof GameEventMap;
+
+export type GameEventHandler<K extends GameEventName> = (payload: GameEventMap[K]) => void;
+
+/**
+ * GameEventBus - a minimal strongly-typed publish/subscribe emitter
+ * It deliberately has no Phaser dependency so it can be created by React
+ * before the game exists and handed to the scene through init()
+ */
+export class GameEventBus {
+  // One set of handlers per event name
+  private handlers = new Map<GameEventName, Set<GameEventHandler<GameEventName>>>();
+
+  /**
+   * on() - Subscribe to an event
+   * @returns a function that removes the subscription (handy for useEffect cleanup)
+   */
+  on<K extends GameEventName>(event: K, handler: GameEventHandler<K>): () => void {
+    if (!this.handlers.has(event)) this.handlers.set(event, new Set());
+    this.handlers.get(event)!.add(handler as GameEventHandler<GameEventName>);
+    return () => this.off(event, handler);
+  }
+
+  /**
+   * off() - Remove a previously registered handler
+   */
+  off<K extends GameEventName>(event: K, handler: GameEventHandler<K>) {
+    this.handlers.get(event)?.delete(handler as GameEventHandler<GameEventName>);
+  }
+
+  /**
+   * emit() - Deliver a payload to every subscriber of an event
+   * Handlers are copied first so they may unsubscribe while being called
+   */
+  emit<K extends GameEventName>(event: K, payload: GameEventMap[K]) {
+    const set = this.handlers.get(event);
+    if (!set) return;
+    [...set].forEach((handler) => handler(payload));
+  }
+}
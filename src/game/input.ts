@@ -0,0 +1,254 @@
+/**
+ * Input actions - what the player wants to do, independent of how they asked
+ *
+ * The game never checks for specific keys. Keyboard keys (through the player's
+ * key bindings), gamepad buttons and sticks, the on-screen buttons and the HUD
+ * pause button all hold or press actions on one InputActions object; GameScene
+ * reads the movement actions every frame and React reacts to pause and restart.
+ *
+ * Like GameEventBus, this has no Phaser dependency: React creates it before
+ * the game exists, and it keeps working while the scene is paused.
+ */
+
+export type InputAction = 'moveLeft' | 'moveRight' | 'pause' | 'dash' | 'restart';
+
+export const INPUT_ACTION_LABELS: Record<InputAction, string> = {
+  moveLeft: 'Move left',
+  moveRight: 'Move right',
+  pause: 'Pause',
+  dash: 'Dash',
+  restart: 'Restart'
+};
+
+export const INPUT_ACTIONS = Object.keys(INPUT_ACTION_LABELS) as InputAction[];
+
+// Keys bound to each action, as KeyboardEvent.code values ('KeyA', 'ArrowLeft'...)
+export type KeyBindings = Record<InputAction, string[]>;
+
+// How many keys can be bound to one action (a main key and an alternate)
+export const MAX_KEYS_PER_ACTION = 2;
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  moveLeft: ['ArrowLeft', 'KeyA'],
+  moveRight: ['ArrowRight', 'KeyD'],
+  pause: ['Escape', 'KeyP'],
+  dash: ['Space', 'ShiftLeft'],
+  restart: ['KeyR']
+};
+
+// Gamepad buttons (standard mapping) and the actions they hold
+// Movement also works from the left stick, with analog speed
+export const GAMEPAD_BUTTON_ACTIONS: Record<number, InputAction> = {
+  0: 'dash',        // A / Cross
+  1: 'pause',       // B / Circle
+  3: 'restart',     // Y / Triangle
+  9: 'pause',       // Start / Options
+  14: 'moveLeft',   // D-pad left
+  15: 'moveRight'   // D-pad right
+};
+
+// Stick positions closer to the middle than this count as centered (worn sticks drift)
+export const GAMEPAD_DEADZONE = 0.2;
+
+/**
+ * applyDeadzone() - Ignores small stick movements and rescales the rest to the full -1..1 range
+ */
+export function applyDeadzone(value: number, deadzone = GAMEPAD_DEADZONE) {
+  if (Math.abs(value) < deadzone) return 0;
+  return Math.sign(value) * (Math.abs(value) - deadzone) / (1 - deadzone);
+}
+
+// Friendlier names for keys whose code isn't readable as-is
+const KEY_NAMES: Record<string, string> = {
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Escape: 'Esc',
+  Space: 'Space',
+  ShiftLeft: 'Left Shift',
+  ShiftRight: 'Right Shift',
+  ControlLeft: 'Left Ctrl',
+  ControlRight: 'Right Ctrl',
+  AltLeft: 'Left Alt',
+  AltRight: 'Right Alt'
+};
+
+/**
+ * keyName() - A short display name for a key code ('KeyA' -> 'A', 'ArrowLeft' -> '←')
+ */
+export function keyName(code: string) {
+  if (KEY_NAMES[code]) return KEY_NAMES[code];
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  return code;
+}
+
+/**
+ * bindingLabel() - The keys bound to an action, ready to show ('← / A'), or 'Unbound'
+ */
+export function bindingLabel(bindings: KeyBindings, action: InputAction) {
+  return bindings[action].length > 0 ? bindings[action].map(keyName).join(' / ') : 'Unbound';
+}
+
+/**
+ * findConflicts() - Keys bound to more than one action
+ * @returns Each conflicting key code mapped to the actions that share it
+ */
+export function findConflicts(bindings: KeyBindings) {
+  const owners = new Map<string, InputAction[]>();
+  INPUT_ACTIONS.forEach((action) => {
+    bindings[action].forEach((code) => owners.set(code, [...(owners.get(code) ?? []), action]));
+  });
+  return new Map([...owners].filter(([, actions]) => actions.length > 1));
+}
+
+// Where focus is when the player is typing (e.g. their name for the high-score table)
+function isTextEntry(target: EventTarget | null) {
+  return target instanceof HTMLElement &&
+    (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+}
+
+type PressHandler = (action: InputAction) => void;
+
+/**
+ * InputActions - tracks which actions are held and announces presses
+ * Every input source holds actions under its own name (a key code, 'buttons'...),
+ * so releasing one source never cancels another one holding the same action
+ */
+export class InputActions {
+  enabled = true;                       // Turned off while a dialog needs the keyboard
+
+  private bindings: KeyBindings;
+  private holders = new Map<InputAction, Set<string>>();  // Who is holding each action
+  private pressHandlers = new Set<PressHandler>();
+  private analogAxis = 0;               // Horizontal axis from an analog stick (-1..1)
+
+  constructor(bindings: KeyBindings = DEFAULT_KEY_BINDINGS) {
+    this.bindings = bindings;
+  }
+
+  /**
+   * setBindings() - Switches to new key bindings, releasing every key held under the old ones
+   */
+  setBindings(bindings: KeyBindings) {
+    this.bindings = bindings;
+    this.releaseAll('key:');
+  }
+
+  /**
+   * attach() - Starts listening to the keyboard
+   * @returns a function that stops listening (handy for useEffect cleanup)
+   */
+  attach(target: Window = window) {
+    const onKeyDown = (event: KeyboardEvent) => this.handleKey(event, true);
+    const onKeyUp = (event: KeyboardEvent) => this.handleKey(event, false);
+    const onBlur = () => this.releaseAll();      // Keys released in another window never send keyup
+
+    target.addEventListener('keydown', onKeyDown);
+    target.addEventListener('keyup', onKeyUp);
+    target.addEventListener('blur', onBlur);
+    return () => {
+      target.removeEventListener('keydown', onKeyDown);
+      target.removeEventListener('keyup', onKeyUp);
+      target.removeEventListener('blur', onBlur);
+      this.releaseAll();
+    };
+  }
+
+  /**
+   * hold() - A source started holding an action (a press is announced if nothing held it before)
+   * @param action - The action being held
+   * @param holder - Name of the source holding it ('buttons', 'pad:0'...)
+   */
+  hold(action: InputAction, holder: string) {
+    if (!this.enabled) return;
+    const holders = this.holders.get(action) ?? new Set<string>();
+    const wasDown = holders.size > 0;
+    holders.add(holder);
+    this.holders.set(action, holders);
+    if (!wasDown) this.press(action);
+  }
+
+  /**
+   * release() - A source stopped holding an action
+   */
+  release(action: InputAction, holder: string) {
+    this.holders.get(action)?.delete(holder);
+  }
+
+  /**
+   * press() - Announces a one-off press (e.g. the HUD pause button) without holding anything
+   */
+  press(action: InputAction) {
+    if (!this.enabled) return;
+    [...this.pressHandlers].forEach((handler) => handler(action));
+  }
+
+  /**
+   * onPress() - Subscribe to action presses
+   * @returns a function that removes the subscription
+   */
+  onPress(handler: PressHandler): () => void {
+    this.pressHandlers.add(handler);
+    return () => this.pressHandlers.delete(handler);
+  }
+
+  /**
+   * isDown() - Is any source holding this action?
+   */
+  isDown(action: InputAction) {
+    return (this.holders.get(action)?.size ?? 0) > 0;
+  }
+
+  /**
+   * setAnalogAxis() - Horizontal position of an analog stick, -1 (left) to 1 (right)
+   */
+  setAnalogAxis(value: number) {
+    this.analogAxis = value;
+  }
+
+  /**
+   * axis - Which way (and how hard) the player is steering: -1 full left, 1 full right
+   * Digital inputs win over the analog stick
+   */
+  get axis() {
+    const digital = (this.isDown('moveRight') ? 1 : 0) - (this.isDown('moveLeft') ? 1 : 0);
+    return digital !== 0 ? digital : this.analogAxis;
+  }
+
+  /**
+   * releaseAll() - Lets go of every held action, or only those held by one kind of source
+   * @param prefix - Only release holders whose name starts with this ('key:', 'pad:'...)
+   */
+  releaseAll(prefix = '') {
+    this.holders.forEach((holders) => holders.forEach((holder) => {
+      if (holder.startsWith(prefix)) holders.delete(holder);
+    }));
+    if (prefix === '' || prefix === 'pad:') this.analogAxis = 0;
+  }
+
+  /**
+   * handleKey() - Turns a key event into holding or releasing the actions bound to that key
+   */
+  private handleKey(event: KeyboardEvent, down: boolean) {
+    if (isTextEntry(event.target)) return;      // Typing a name shouldn't pause or restart the game
+
+    const actions = INPUT_ACTIONS.filter((action) => this.bindings[action].includes(event.code));
+    if (actions.length === 0) return;
+
+    const holder = `key:${event.code}`;
+    actions.forEach((action) => {
+      if (!down) {
+        this.release(action, holder);
+      } else if (!event.repeat) {
+        this.hold(action, holder);
+      }
+    });
+
+    // Stop bound keys from scrolling the page, unless a button or link has focus
+    if (this.enabled && !(event.target instanceof HTMLElement && event.target.closest('button, a'))) {
+      event.preventDefault();
+    }
+  }
+}
@@ -0,0 +1,154 @@
+import type { PowerUpId } from './powerups';
+import type { SpriteFrame } from './assets';
+
+/**
+ * Item catalog - everything that can fall from the sky
+ *
+ * Each entry describes how an item looks, how often it spawns, how fast it
+ * falls and what happens when the plate catches it. GameEngine never checks
+ * for a specific item type: it picks an entry by weight, sizes it from the
+ * entry, and calls its onCatch handler (GameScene draws it from the entry's
+ * sprite frame). Adding a new item is just a matter of adding an entry here.
+ */
+
+/**
+ * The actions a catch handler is allowed to perform on the running game
+ * GameEngine provides the implementation, so items never touch the run's state directly
+ */
+export interface ItemCatchContext {
+  addScore: (points: number) => void;   // Add (or with a negative number, remove) points
+  loseLife: () => void;                 // Cost the player a life (respects invulnerability)
+  gainLife: () => void;                 // Give back a life, up to the starting amount
+  endGame: () => void;                  // End the run immediately (if the game mode allows it)
+  activatePowerUp: (id: PowerUpId) => void;  // Start (or stack) a timed power-up
+}
+
+// Definition of a single falling item type
+export interface ItemType {
+  name: string;             // Human-readable name for the UI
+  frame: SpriteFrame;       // Frame in the 'sprites' atlas loaded by LoadingScene
+  size: number;             // Width and height in pixels
+  weight: number;           // Relative spawn chance compared to the other items
+  speedModifier: number;    // Multiplier applied to the current fall speed
+  missCostsLife: boolean;   // Does letting it hit the ground cost a life?
+  magnetic: boolean;        // Is it pulled toward the plate by the magnet power-up?
+  onCatch: (ctx: ItemCatchContext) => void;  // What happens when the plate catches it
+}
+
+// The full catalog, keyed by item id
+export const ITEM_CATALOG = {
+  apple: {
+    name: 'Apple',
+    frame: 'apple',
+    size: 30,
+    weight: 70,
+    speedModifier: 1,
+    missCostsLife: true,
+    magnetic: true,
+    onCatch: (ctx) => ctx.addScore(1)
+  },
+  goldenApple: {
+    name: 'Golden Apple',
+    frame: 'apple-golden',
+    size: 30,
+    weight: 8,
+    speedModifier: 1.3,       // Worth a lot, so it falls faster
+    missCostsLife: false,
+    magnetic: true,
+    onCatch: (ctx) => ctx.addScore(5)
+  },
+  rottenApple: {
+    name: 'Rotten Apple',
+    frame: 'apple-rotten',
+    size: 30,
+    weight: 12,
+    speedModifier: 0.9,
+    missCostsLife: false,     // Letting it drop is the right move
+    magnetic: false,
+    onCatch: (ctx) => ctx.loseLife()
+  },
+  bomb: {
+    name: 'Bomb',
+    frame: 'bomb',
+    size: 34,
+    weight: 6,
+    speedModifier: 1.1,
+    missCostsLife: false,
+    magnetic: false,
+    onCatch: (ctx) => ctx.endGame()
+  },
+  extraLife: {
+    name: 'Extra Life',
+    frame: 'heart',
+    size: 26,
+    weight: 2,                // Rare power-up
+    speedModifier: 0.8,
+    missCostsLife: false,
+    magnetic: true,
+    onCatch: (ctx) => ctx.gainLife()
+  },
+  widePlatePowerUp: {
+    name: 'Wide Plate',
+    frame: 'powerup-wide',
+    size: 26,
+    weight: 2,
+    speedModifier: 0.8,
+    missCostsLife: false,
+    magnetic: true,
+    onCatch: (ctx) => ctx.activatePowerUp('widePlate')
+  },
+  slowMotionPowerUp: {
+    name: 'Slow Motion',
+    frame: 'powerup-slow',
+    size: 26,
+    weight: 2,
+    speedModifier: 0.8,
+    missCostsLife: false,
+    magnetic: true,
+    onCatch: (ctx) => ctx.activatePowerUp('slowMotion')
+  },
+  magnetPowerUp: {
+    name: 'Magnet',
+    frame: 'powerup-magnet',
+    size: 26,
+    weight: 2,
+    speedModifier: 0.8,
+    missCostsLife: false,
+    magnetic: true,
+    onCatch: (ctx) => ctx.activatePowerUp('magnet')
+  },
+  shieldPowerUp: {
+    name: 'Shield',
+    frame: 'powerup-shield',
+    size: 26,
+    weight: 2,
+    speedModifier: 0.8,
+    missCostsLife: false,
+    magnetic: true,
+    onCatch: (ctx) => ctx.activatePowerUp('shield')
+  }
+} satisfies Record<string, ItemType>;
+
+export type ItemId = keyof typeof ITEM_CATALOG;
+
+/**
+ * pickItem() - Chooses an item id using the catalog's spawn weights
+ * @param roll - A random number in the range [0, 1)
+ * @param weightOf - Spawn weight to use for each item (game modes can shift the odds)
+ */
+export function pickItem(
+  roll: number,
+  weightOf: (id: ItemId, item: ItemType) => number = (_id, item) => item.weight
+): ItemId {
+  const entries = (Object.entries(ITEM_CATALOG) as [ItemId, ItemType][])
+    .map(([id, item]) => [id, weightOf(id, item)] as const);
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+
+  // Walk the entries until the roll lands inside one item's share of the total
+  let remaining = roll * total;
+  for (const [id, weight] of entries) {
+    remaining -= weight;
+    if (remaining < 0) return id;
+  }
+  return entries[entries.length - 1][0];
+}
@@ -0,0 +1,136 @@
+import type { DifficultyConfig } from './difficulty';
+import type { ItemId, ItemType } from './items';
+import type { GameEventMap } from './events';
+
+/**
+ * Game modes
+ *
+ * Every run is played in a mode. A mode is a set of rules GameEngine asks
+ * instead of hardcoding them: how many lives the player gets, how often items
+ * spawn, which items are likely, when the run is lost and how the run is
+ * summed up at the end. Adding a mode is just a matter of adding an entry here.
+ *
+ * Leaderboards are kept separately per mode (and per difficulty) so scores
+ * from different rule sets are never mixed.
+ */
+
+// What a mode can see of the run when deciding whether it's over
+export interface ModeRunState {
+  elapsed: number;      // Play time in milliseconds
+  lives: number;        // Lives remaining (always 0 in modes without lives)
+  bombCaught: boolean;  // Has the plate caught a bomb this run?
+}
+
+// Summary of a finished run, as published on the 'gameOver' event
+export type RunSummary = GameEventMap['gameOver'];
+
+// Rules for a single game mode
+export interface GameMode {
+  name: string;             // Display name for the start screen and leaderboards
+  icon: string;             // Emoji shown next to the name
+  description: string;      // One-line explanation for the start screen
+  lives: number | null;     // Lives at the start of a run, or null when misses never cost a life
+  timeLimit: number | null; // Length of a run in milliseconds, or null when it only ends on a loss
+  firstInterval: (difficulty: DifficultyConfig) => number;  // Milliseconds between the first spawns
+  nextInterval: (interval: number, difficulty: DifficultyConfig) => number;  // Interval after each spawn
+  itemWeight: (id: ItemId, item: ItemType, elapsed: number) => number;  // Spawn weight of an item right now
+  isOver: (run: ModeRunState) => boolean;   // Has the run been lost (or run out of time)?
+  summary: (run: RunSummary) => string;     // One line for the game over screen
+}
+
+// Minutes and seconds, e.g. 83000 -> '1:23' (kept here so the mode rules don't depend on React code)
+function clock(ms: number) {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+}
+
+// The original cadence - every spawn shortens the interval by the ramp rate, down to the floor
+function rampInterval(interval: number, difficulty: DifficultyConfig) {
+  return Math.max(difficulty.minInterval, interval - difficulty.rampRate);
+}
+
+// Modes without lives have no use for extra lives, so those never spawn
+function withoutExtraLives(id: ItemId, item: ItemType) {
+  return id === 'extraLife' ? 0 : item.weight;
+}
+
+// Items that hurt the player when caught
+const HAZARDS: ItemId[] = ['rottenApple', 'bomb'];
+
+// Time Attack - how long a run lasts
+const TIME_ATTACK_MS = 60000;
+
+// Zen - items spawn this much less often than the difficulty's starting rate, and never speed up
+const ZEN_INTERVAL_SCALE = 1.5;
+
+// Survival - more lives, but hazards get more likely every minute (+100% of their usual
+// weight) and spawns keep speeding up to twice as often as the difficulty's floor
+const SURVIVAL_LIVES = 5;
+const SURVIVAL_HAZARD_GROWTH_PER_MINUTE = 1;
+const SURVIVAL_FLOOR_SCALE = 0.5;
+
+// Every mode, keyed by id - 'classic' is the game as it has always played
+export const GAME_MODES = {
+  classic: {
+    name: 'Classic',
+    icon: '🍎',
+    description: 'Three lives. A bomb or running out of lives ends the run.',
+    lives: 3,
+    timeLimit: null,
+    firstInterval: (difficulty) => difficulty.startInterval,
+    nextInterval: rampInterval,
+    itemWeight: (_id, item) => item.weight,
+    isOver: ({ lives, bombCaught }) => lives <= 0 || bombCaught,
+    summary: ({ duration, maxCombo }) => `Time ${clock(duration)} · Max combo ${maxCombo}`
+  },
+  timeAttack: {
+    name: 'Time Attack',
+    icon: '⏱️',
+    description: '60 seconds to score as much as you can. Misses and bombs only break your combo.',
+    lives: null,
+    timeLimit: TIME_ATTACK_MS,
+    firstInterval: (difficulty) => difficulty.startInterval,
+    nextInterval: (interval, difficulty) => rampInterval(interval - difficulty.rampRate, difficulty),  // Ramps twice as fast
+    itemWeight: withoutExtraLives,
+    isOver: ({ elapsed }) => elapsed >= TIME_ATTACK_MS,
+    summary: ({ score, caught, maxCombo }) =>
+      `${(score / (TIME_ATTACK_MS / 1000)).toFixed(1)} points a second · ${caught} caught · Max combo ${maxCombo}`
+  },
+  zen: {
+    name: 'Zen',
+    icon: '🧘',
+    description: 'No lives, no game over and a relaxed pace. Finish the run from the pause menu.',
+    lives: null,
+    timeLimit: null,
+    firstInterval: (difficulty) => difficulty.startInterval * ZEN_INTERVAL_SCALE,
+    nextInterval: (interval) => interval,
+    itemWeight: withoutExtraLives,
+    isOver: () => false,
+    summary: ({ duration, caught }) => `${caught} caught in ${clock(duration)} of calm`
+  },
+  survival: {
+    name: 'Survival',
+    icon: '💀',
+    description: 'Five lives, but bombs and rotten apples get more common the longer you last.',
+    lives: SURVIVAL_LIVES,
+    timeLimit: null,
+    firstInterval: (difficulty) => difficulty.startInterval,
+    nextInterval: (interval, difficulty) => Math.max(difficulty.minInterval * SURVIVAL_FLOOR_SCALE, interval - difficulty.rampRate),
+    itemWeight: (id, item, elapsed) => HAZARDS.includes(id)
+      ? item.weight * (1 + SURVIVAL_HAZARD_GROWTH_PER_MINUTE * elapsed / 60000)
+      : item.weight,
+    isOver: ({ lives, bombCaught }) => lives <= 0 || bombCaught,
+    summary: ({ duration, maxCombo }) => `Survived ${clock(duration)} · Max combo ${maxCombo}`
+  }
+} satisfies Record<string, GameMode>;
+
+export type GameModeId = keyof typeof GAME_MODES;
+
+export const GAME_MODE_IDS = Object.keys(GAME_MODES) as GameModeId[];
+
+// Display names for the start screen and leaderboards
+export const GAME_MODE_LABELS = Object.fromEntries(
+  GAME_MODE_IDS.map((id) => [id, GAME_MODES[id].name])
+) as Record<GameModeId, string>;
+
+export const DEFAULT_MODE: GameModeId = 'classic';
@@ -0,0 +1,98 @@
+import type { DifficultyConfig } from './difficulty';
+import type { ItemId } from './items';
+
+/**
+ * Run modifiers - small twists layered on top of a mode and difficulty
+ *
+ * The daily challenge picks a few of these each day. A modifier can retune
+ * the difficulty (fall speed, plate size...) and change how likely each item
+ * is; GameEngine applies every active modifier on top of the mode's rules.
+ */
+
+export interface RunModifier {
+  name: string;         // Display name for the start screen and game over card
+  icon: string;         // Emoji shown next to the name
+  description: string;  // One-line explanation
+  group?: string;       // Modifiers in the same group contradict each other - only one is ever picked
+  difficulty?: (config: DifficultyConfig) => DifficultyConfig;  // Retunes the difficulty
+  itemWeight?: (id: ItemId, weight: number) => number;          // Changes an item's spawn weight
+}
+
+export const RUN_MODIFIERS = {
+  fastFall: {
+    name: 'Heavy Apples',
+    icon: '🪨',
+    description: 'Everything falls 30% faster.',
+    difficulty: (config) => ({ ...config, baseFallSpeed: config.baseFallSpeed * 1.3 })
+  },
+  smallPlate: {
+    name: 'Tiny Plate',
+    icon: '🤏',
+    description: 'Your plate is 30% narrower.',
+    group: 'plate',
+    difficulty: (config) => ({ ...config, plateWidth: Math.round(config.plateWidth * 0.7) })
+  },
+  bigPlate: {
+    name: 'Serving Platter',
+    icon: '🍽️',
+    description: 'Your plate is 40% wider.',
+    group: 'plate',
+    difficulty: (config) => ({ ...config, plateWidth: Math.round(config.plateWidth * 1.4) })
+  },
+  rush: {
+    name: 'Rush',
+    icon: '⚡',
+    description: 'Items spawn faster from the start.',
+    difficulty: (config) => ({ ...config, startInterval: Math.max(config.minInterval, config.startInterval * 0.7) })
+  },
+  goldRush: {
+    name: 'Gold Rush',
+    icon: '⭐',
+    description: 'Golden apples are three times as common.',
+    itemWeight: (id, weight) => (id === 'goldenApple' ? weight * 3 : weight)
+  },
+  minefield: {
+    name: 'Minefield',
+    icon: '💣',
+    description: 'Bombs are twice as common.',
+    itemWeight: (id, weight) => (id === 'bomb' ? weight * 2 : weight)
+  },
+  noPowerUps: {
+    name: 'Back to Basics',
+    icon: '🚫',
+    description: 'No power-ups.',
+    group: 'powerUps',
+    itemWeight: (id, weight) => (id.endsWith('PowerUp') ? 0 : weight)
+  },
+  bounty: {
+    name: 'Bounty',
+    icon: '🎁',
+    description: 'Power-ups and extra lives are twice as common.',
+    group: 'powerUps',
+    itemWeight: (id, weight) => (id.endsWith('PowerUp') || id === 'extraLife' ? weight * 2 : weight)
+  }
+} satisfies Record<string, RunModifier>;
+
+export type RunModifierId = keyof typeof RUN_MODIFIERS;
+
+export const RUN_MODIFIER_IDS = Object.keys(RUN_MODIFIERS) as RunModifierId[];
+
+/**
+ * applyModifierDifficulty() - The difficulty with every modifier's retuning applied, in order
+ */
+export function applyModifierDifficulty(config: DifficultyConfig, modifiers: RunModifierId[]) {
+  return modifiers.reduce<DifficultyConfig>(
+    (current, id) => (RUN_MODIFIERS[id] as RunModifier).difficulty?.(current) ?? current,
+    config
+  );
+}
+
+/**
+ * applyModifierWeight() - An item's spawn weight after every modifier has had its say
+ */
+export function applyModifierWeight(id: ItemId, weight: number, modifiers: RunModifierId[]) {
+  return modifiers.reduce(
+    (current, modifier) => (RUN_MODIFIERS[modifier] as RunModifier).itemWeight?.(id, current) ?? current,
+    weight
+  );
+}
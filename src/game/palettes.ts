@@ -0,0 +1,58 @@
+/**
+ * Color palettes - alternative colors for players who find the default art hard to read
+ *
+ * A palette can repaint sprite frames with a flat color (the artwork's shape is
+ * kept, its colors are replaced) and tint the background darker or lighter.
+ * Frames a palette doesn't mention keep their normal artwork - the power-ups
+ * are told apart by their icons, so they're never repainted.
+ */
+
+import { SpriteFrame } from './assets';
+
+export interface Palette {
+  frames: Partial<Record<SpriteFrame, number>>;  // Flat fill color per sprite frame
+  background: number;   // Tint multiplied over the sky and hills (0xFFFFFF leaves them as drawn)
+  text: string;         // Color of the floating "+3" score text
+}
+
+export type PaletteId = 'classic' | 'highContrast' | 'colorblind';
+
+export const PALETTES: Record<PaletteId, Palette> = {
+  // The artwork as drawn
+  classic: {
+    frames: {},
+    background: 0xFFFFFF,
+    text: '#FFD700'
+  },
+  // Bright, saturated items over a darkened background
+  highContrast: {
+    frames: {
+      apple: 0xFF2020,
+      'apple-golden': 0xFFFF00,
+      'apple-rotten': 0x00FF66,
+      bomb: 0xFFFFFF,
+      heart: 0xFF66CC,
+      plate: 0xFFFFFF
+    },
+    background: 0x404040,
+    text: '#FFFFFF'
+  },
+  // Okabe-Ito colors, which stay distinct with the common kinds of color blindness
+  colorblind: {
+    frames: {
+      apple: 0xD55E00,
+      'apple-golden': 0xF0E442,
+      'apple-rotten': 0x56B4E9,
+      bomb: 0x000000,
+      heart: 0xCC79A7
+    },
+    background: 0xFFFFFF,
+    text: '#F0E442'
+  }
+};
+
+export const PALETTE_LABELS: Record<PaletteId, string> = {
+  classic: 'Classic',
+  highContrast: 'High contrast',
+  colorblind: 'Color-blind friendly'
+};
@@ -0,0 +1,129 @@
+/**
+ * Power-ups - timed effects the player collects by catching special items
+ *
+ * This module only keeps track of which power-ups are active, how many
+ * times each one has been stacked and when they run out. GameEngine reads
+ * that state every tick and applies the actual effects (plate width,
+ * slow motion, magnet pull, shield).
+ *
+ * Stacking model:
+ * - Catching a power-up that is already active refreshes its timer to the
+ *   full duration and adds a stack, up to the power-up's maxStacks
+ * - Every stack expires together when the timer runs out
+ * - The shield also loses a stack each time it absorbs a miss
+ */
+
+// Static description of a power-up
+export interface PowerUpType {
+  name: string;         // Human-readable name for the HUD
+  icon: string;         // Emoji shown in the HUD
+  duration: number;     // How long it lasts once collected (in milliseconds)
+  maxStacks: number;    // How many times it can stack
+}
+
+export const POWER_UPS = {
+  widePlate: { name: 'Wide Plate', icon: '↔️', duration: 8000, maxStacks: 2 },
+  slowMotion: { name: 'Slow Motion', icon: '🐢', duration: 6000, maxStacks: 1 },
+  magnet: { name: 'Magnet', icon: '🧲', duration: 7000, maxStacks: 1 },
+  shield: { name: 'Shield', icon: '🛡️', duration: 15000, maxStacks: 2 }
+} satisfies Record<string, PowerUpType>;
+
+export type PowerUpId = keyof typeof POWER_UPS;
+
+// Snapshot of one active power-up, as published to the React HUD
+export interface ActivePowerUp {
+  id: PowerUpId;
+  stacks: number;       // Current stack count (shield: misses it can still absorb)
+  remaining: number;    // Milliseconds left before it expires
+  duration: number;     // Full duration, so the HUD can draw a progress bar
+}
+
+/**
+ * PowerUpTracker - bookkeeping for active power-ups
+ * All methods take the current game time so the tracker never needs a clock
+ * of its own (and stops counting down whenever the engine stops calling it)
+ */
+export class PowerUpTracker {
+  // Active power-ups: when each one expires and how many stacks it has
+  private active = new Map<PowerUpId, { expiresAt: number; stacks: number }>();
+
+  /**
+   * activate() - Start a power-up, or refresh and stack it if it's already running
+   */
+  activate(id: PowerUpId, now: number) {
+    const type = POWER_UPS[id];
+    const current = this.active.get(id);
+    this.active.set(id, {
+      expiresAt: now + type.duration,
+      stacks: Math.min((current?.stacks ?? 0) + 1, type.maxStacks)
+    });
+  }
+
+  /**
+   * stacks() - How many stacks of a power-up are active (0 when inactive)
+   */
+  stacks(id: PowerUpId) {
+    return this.active.get(id)?.stacks ?? 0;
+  }
+
+  /**
+   * count - How many different power-ups are running
+   */
+  get count() {
+    return this.active.size;
+  }
+
+  /**
+   * isActive() - Is this power-up currently running?
+   */
+  isActive(id: PowerUpId) {
+    return this.active.has(id);
+  }
+
+  /**
+   * consume() - Use up one stack (e.g. the shield absorbing a miss)
+   * @returns true if a stack was available
+   */
+  consume(id: PowerUpId) {
+    const current = this.active.get(id);
+    if (!current) return false;
+    if (current.stacks <= 1) {
+      this.active.delete(id);
+    } else {
+      current.stacks -= 1;
+    }
+    return true;
+  }
+
+  /**
+   * expire() - Remove every power-up whose timer has run out
+   * @returns the ids that expired, so the engine can undo their effects
+   */
+  expire(now: number): PowerUpId[] {
+    const expired: PowerUpId[] = [];
+    this.active.forEach(({ expiresAt }, id) => {
+      if (now >= expiresAt) expired.push(id);
+    });
+    expired.forEach((id) => this.active.delete(id));
+    return expired;
+  }
+
+  /**
+   * snapshot() - Describe the active power-ups for the HUD
+   */
+  snapshot(now: number): ActivePowerUp[] {
+    return [...this.active].map(([id, { expiresAt, stacks }]) => ({
+      id,
+      stacks,
+      remaining: Math.max(0, expiresAt - now),
+      duration: POWER_UPS[id].duration
+    }));
+  }
+
+  /**
+   * clear() - Drop every active power-up (used on restart)
+   */
+  clear() {
+    this.active.clear();
+  }
+}
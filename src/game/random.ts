@@ -0,0 +1,75 @@
+/**
+ * Seeded random numbers
+ *
+ * Every random decision in a run (where an item spawns, which item it is)
+ * goes through a SeededRandom created from the run's seed. Two runs with the
+ * same seed get the same items in the same order, which is what makes daily
+ * challenges fair and bug reports reproducible.
+ *
+ * Seeds are short strings so players can read them off the game over card and
+ * type them back in. Any string works - it's hashed to the 32-bit state the
+ * generator (mulberry32) actually uses.
+ */
+
+// Letters and digits used for generated seeds (no 0/o or 1/l, which are easy to mix up when typed)
+const SEED_ALPHABET = 'abcdefghijkmnpqrstuvwxyz23456789';
+const SEED_LENGTH = 8;
+
+/**
+ * randomSeed() - A fresh seed for a run the player didn't pick a seed for
+ */
+export function randomSeed() {
+  const values = crypto.getRandomValues(new Uint32Array(SEED_LENGTH));
+  return Array.from(values, (value) => SEED_ALPHABET[value % SEED_ALPHABET.length]).join('');
+}
+
+/**
+ * normalizeSeed() - Tidies a typed-in seed so ' ABC ' and 'abc' are the same run
+ */
+export function normalizeSeed(seed: string) {
+  return seed.trim().toLowerCase();
+}
+
+/**
+ * hashSeed() - Turns a seed string into 32 bits of generator state (FNV-1a)
+ */
+function hashSeed(seed: string) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * SeededRandom - a small, fast, deterministic random number generator
+ */
+export class SeededRandom {
+  readonly seed: string;
+  private state: number;
+
+  constructor(seed: string) {
+    this.seed = seed;
+    this.state = hashSeed(seed);
+  }
+
+  /**
+   * float() - A random number in the range [0, 1), like Math.random()
+   */
+  float() {
+    // mulberry32
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * between() - A random number in the range [min, max)
+   */
+  between(min: number, max: number) {
+    return min + this.float() * (max - min);
+  }
+}
@@ -0,0 +1,128 @@
+import type { DifficultyConfig } from './difficulty';
+import type { GameModeId } from './modes';
+import type { RunModifierId } from './modifiers';
+
+/**
+ * Replays - recording a run's input so it can be played back exactly
+ *
+ * GameEngine simulates in fixed steps ("ticks"), and every random decision
+ * comes from the run's seed, so a run is fully described by its seed, its
+ * config and what the player did on each tick. The recorder keeps that input
+ * as a list of changes (most ticks repeat the previous one); the player
+ * hands it back tick by tick while the engine re-runs the same simulation.
+ *
+ * Replays only match exactly when played at the same game size, because
+ * spawn positions and the plate's reach depend on the width of the game.
+ * So a run keeps the size it started at to the end, and a replay always
+ * plays at its recorded size - the scene scales the view to fit the window.
+ */
+
+// Length of one simulation step in milliseconds (60 ticks a second)
+export const TICK_MS = 1000 / 60;
+
+// Version of the simulation - bump it whenever a change to the game's rules
+// would make existing replays play out differently
+export const GAME_VERSION = 3;
+
+// What the player did on one tick - the only things the simulation reads from input
+export interface TickInput {
+  axis: number;             // Steering from the movement actions, -1 (left) to 1 (right)
+  dash: boolean;            // Was dash pressed since the previous tick?
+  targetX: number | null;   // Where the pointer wants the plate (pointer and drag schemes), if anywhere
+}
+
+// A recorded change of input: [tick, axis, dash (0/1), targetX]
+export type ReplayInput = [number, number, 0 | 1, number | null];
+
+export interface Replay {
+  seed: string;
+  mode: GameModeId;
+  difficulty: DifficultyConfig;   // Before modifiers - they're applied again on playback
+  modifiers: RunModifierId[];
+  lives: number;                  // Starting lives
+  width: number;                  // Game size when recorded
+  height: number;
+  ticks: number;                  // Length of the run in ticks
+  score: number;                  // Final score, to check the playback against
+  inputs: ReplayInput[];
+}
+
+// The config a replay needs besides its input
+export type ReplayConfig = Omit<Replay, 'ticks' | 'score' | 'inputs'>;
+
+// Input on a tick where nothing is pressed
+export const IDLE_INPUT: TickInput = { axis: 0, dash: false, targetX: null };
+
+/**
+ * quantizeInput() - Rounds input to what a replay stores, so live play and
+ * playback see exactly the same numbers
+ */
+export function quantizeInput(input: TickInput): TickInput {
+  return {
+    axis: Math.round(input.axis * 100) / 100,
+    dash: input.dash,
+    targetX: input.targetX === null ? null : Math.round(input.targetX)
+  };
+}
+
+/**
+ * ReplayRecorder - collects the input of a live run
+ */
+export class ReplayRecorder {
+  private inputs: ReplayInput[] = [];
+  private last: TickInput = IDLE_INPUT;
+
+  constructor(private config: ReplayConfig) {}
+
+  /**
+   * record() - Notes the input of a tick, if it differs from the previous one
+   */
+  record(tick: number, input: TickInput) {
+    if (!input.dash && input.axis === this.last.axis && input.targetX === this.last.targetX) return;
+    this.inputs.push([tick, input.axis, input.dash ? 1 : 0, input.targetX]);
+    this.last = input;
+  }
+
+  /**
+   * finish() - The finished replay
+   * @param ticks - How many ticks the run lasted
+   * @param score - The run's final score
+   */
+  finish(ticks: number, score: number): Replay {
+    return { ...this.config, ticks, score, inputs: [...this.inputs] };
+  }
+}
+
+/**
+ * ReplayPlayer - hands a replay's input back to the engine, tick by tick
+ * Ticks must be asked for in order; rewind() starts over from the beginning
+ */
+export class ReplayPlayer {
+  private cursor = 0;             // Index of the next change that hasn't happened yet
+  private current: TickInput = IDLE_INPUT;
+
+  constructor(readonly replay: Replay) {}
+
+  /**
+   * inputAt() - The input on a tick (held input carries over; dash only counts on its own tick)
+   */
+  inputAt(tick: number): TickInput {
+    let dash = false;
+    const { inputs } = this.replay;
+    while (this.cursor < inputs.length && inputs[this.cursor][0] <= tick) {
+      const [changedAt, axis, dashed, targetX] = inputs[this.cursor];
+      this.current = { axis, dash: false, targetX };
+      dash = dashed === 1 && changedAt === tick;
+      this.cursor += 1;
+    }
+    return { ...this.current, dash };
+  }
+
+  /**
+   * rewind() - Goes back to the first tick
+   */
+  rewind() {
+    this.cursor = 0;
+    this.current = IDLE_INPUT;
+  }
+}
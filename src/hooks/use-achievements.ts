@@ -0,0 +1,63 @@
+import * as React from "react"
+
+import { toast } from "@/components/ui/sonner"
+import { ACHIEVEMENTS, AchievementId, AchievementTracker } from "@/game/achievements"
+import { dailyKey } from "@/game/daily"
+import type { GameEventBus } from "@/game/events"
+import type { GameModeId } from "@/game/modes"
+import { useGameEvent } from "@/hooks/use-game-events"
+import { loadAchievements, saveAchievements } from "@/lib/achievements"
+
+/**
+ * Track achievements from the game's events and pop up a toast for each one
+ * as it unlocks (toasts never take focus, so play carries on underneath).
+ *
+ * `mode` is the mode of the run being played, or null while nothing should
+ * count - on the start screen, or while a replay is being watched. A new run
+ * starts counting whenever `mode` is set and whenever the game restarts.
+ */
+export function useAchievements(bus: GameEventBus | null | undefined, mode: GameModeId | null) {
+  const trackerRef = React.useRef<AchievementTracker | null>(null)
+  if (!trackerRef.current) trackerRef.current = new AchievementTracker(loadAchievements())
+  const tracker = trackerRef.current
+
+  // Start counting a run; progress is saved when counting stops (quitting mid-run included)
+  React.useEffect(() => {
+    if (!mode) return
+    tracker.startRun(mode)
+    return () => saveAchievements(tracker.state)
+  }, [tracker, mode])
+
+  // Save and announce new unlocks
+  const report = (unlocked: AchievementId[]) => {
+    if (unlocked.length === 0) return
+    saveAchievements(tracker.state)
+    unlocked.forEach((id) => {
+      const { icon, name, description } = ACHIEVEMENTS[id]
+      toast.success(`${icon} Achievement unlocked: ${name}`, { description })
+    })
+  }
+
+  useGameEvent(bus, "appleCaught", ({ item }) => {
+    if (mode) report(tracker.caught(item))
+  })
+  useGameEvent(bus, "comboChanged", ({ combo }) => {
+    if (mode) report(tracker.combo(combo))
+  })
+  useGameEvent(bus, "scoreChanged", ({ score }) => {
+    if (mode) report(tracker.score(score))
+  })
+  useGameEvent(bus, "playTimeChanged", ({ elapsed }) => {
+    if (mode) report(tracker.playTime(elapsed))
+  })
+  useGameEvent(bus, "gameOver", () => {
+    if (!mode) return
+    report(tracker.runFinished(dailyKey(new Date())))
+    saveAchievements(tracker.state)
+  })
+  useGameEvent(bus, "restarted", () => {
+    if (!mode) return
+    saveAchievements(tracker.state)
+    tracker.startRun(mode)
+  })
+}
@@ -0,0 +1,22 @@
+import * as React from "react"
+
+import type { GameEventBus, GameEventHandler, GameEventName } from "@/game/events"
+
+/**
+ * Subscribe a React component to a single game event.
+ * The latest handler is always called, so callers can pass inline
+ * functions without re-subscribing on every render.
+ */
+export function useGameEvent<K extends GameEventName>(
+  bus: GameEventBus | null | undefined,
+  event: K,
+  handler: GameEventHandler<K>
+) {
+  const handlerRef = React.useRef(handler)
+  handlerRef.current = handler
+
+  React.useEffect(() => {
+    if (!bus) return
+    return bus.on(event, (payload) => handlerRef.current(payload))
+  }, [bus, event])
+}
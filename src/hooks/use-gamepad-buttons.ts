@@ -0,0 +1,56 @@
+import * as React from "react"
+
+// Standard-mapping gamepad buttons the menus care about
+export const GAMEPAD_BUTTONS = {
+  a: 0,
+  b: 1,
+  start: 9,
+  up: 12,
+  down: 13,
+} as const
+
+/**
+ * Call a handler whenever a gamepad button is pressed, as long as `enabled` is true.
+ * This is for the React menus: the browser sends no button events, and the Phaser
+ * game (with its gamepad plugin) doesn't exist yet on the start screen, so the
+ * gamepads are polled once per animation frame instead.
+ *
+ * A press counts once the button is let go (like most console menus), so the
+ * press that closes a menu never reaches the game underneath. Buttons already
+ * held when polling starts are ignored until they're pressed again.
+ */
+export function useGamepadButtons(enabled: boolean, handler: (button: number) => void) {
+  const handlerRef = React.useRef(handler)
+  handlerRef.current = handler
+
+  React.useEffect(() => {
+    if (!enabled || typeof navigator.getGamepads !== "function") return
+
+    const previous = new Map<number, boolean[]>() // Button states per gamepad index, last frame
+    const armed = new Set<string>() // "pad:button" pairs pressed since polling started
+    let frame = 0
+
+    const poll = () => {
+      for (const pad of navigator.getGamepads()) {
+        if (!pad) continue
+        const pressed = pad.buttons.map((button) => button.pressed)
+        const before = previous.get(pad.index)
+        previous.set(pad.index, pressed)
+        if (!before) continue // First look at this pad - nothing to compare with yet
+
+        pressed.forEach((down, button) => {
+          const id = `${pad.index}:${button}`
+          if (down && !before[button]) {
+            armed.add(id)
+          } else if (!down && before[button] && armed.delete(id)) {
+            handlerRef.current(button)
+          }
+        })
+      }
+      frame = requestAnimationFrame(poll)
+    }
+
+    frame = requestAnimationFrame(poll)
+    return () => cancelAnimationFrame(frame)
+  }, [enabled])
+}
@@ -0,0 +1,14 @@
+import * as React from "react"
+
+import type { InputAction, InputActions } from "@/game/input"
+
+/**
+ * Call a handler whenever an input action is pressed (by a key, a button or a gamepad).
+ * Like useGameEvent, the latest handler is always called without re-subscribing.
+ */
+export function useActionPress(actions: InputActions, handler: (action: InputAction) => void) {
+  const handlerRef = React.useRef(handler)
+  handlerRef.current = handler
+
+  React.useEffect(() => actions.onPress((action) => handlerRef.current(action)), [actions])
+}
@@ -0,0 +1,35 @@
+import { z } from "zod"
+
+import { AchievementState, emptyAchievementState } from "@/game/achievements"
+
+const STORAGE_KEY = "apple-catcher:achievements"
+
+// Ids that are no longer in the catalog are kept but never shown
+const achievementStateSchema = z.object({
+  progress: z.record(z.number()),
+  unlocked: z.record(z.string()), // ISO timestamps
+  lastPlayed: z.string().nullable(), // 'yyyy-MM-dd'
+  streak: z.number(),
+})
+
+/**
+ * Read the achievement progress. Missing or corrupted data starts over from nothing.
+ */
+export function loadAchievements(): AchievementState {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return emptyAchievementState()
+    const parsed = achievementStateSchema.safeParse(JSON.parse(raw))
+    return parsed.success ? (parsed.data as AchievementState) : emptyAchievementState()
+  } catch {
+    return emptyAchievementState()
+  }
+}
+
+export function saveAchievements(state: AchievementState) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state))
+  } catch {
+    // Storage is full or disabled - unlocks still show for this session
+  }
+}
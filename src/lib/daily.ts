@@ -0,0 +1,103 @@
+import { parseISO, subDays } from "date-fns"
+import { z } from "zod"
+
+import { dailyKey } from "@/game/daily"
+
+const STORAGE_KEY = "apple-catcher:daily"
+
+const dailyResultSchema = z.object({
+  score: z.number(), // Score of the day's scored attempt (0 until it finishes)
+  best: z.number(), // Best score that day, practice runs included
+  completed: z.boolean(), // Did the scored attempt reach the game over screen?
+  duration: z.number(), // Length of the scored attempt in milliseconds
+  maxCombo: z.number(),
+  practiceRuns: z.number(),
+})
+
+export type DailyResult = z.infer<typeof dailyResultSchema>
+
+// Results keyed by calendar date ('yyyy-MM-dd')
+export type DailyHistory = Record<string, DailyResult>
+
+/**
+ * Read every day's result. Missing or corrupted data is treated as no history.
+ */
+export function loadDailyHistory(): DailyHistory {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return {}
+    const parsed = z.record(dailyResultSchema).safeParse(JSON.parse(raw))
+    return parsed.success ? (parsed.data as DailyHistory) : {}
+  } catch {
+    return {}
+  }
+}
+
+function saveDailyHistory(history: DailyHistory) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(history))
+  } catch {
+    // Storage is full or disabled - the run still counts for this session
+  }
+}
+
+/**
+ * Start a daily run. The first run of a day is the scored attempt, and it's
+ * used up as soon as it starts, so quitting halfway doesn't earn a retry.
+ * Returns the updated history and whether this run is the scored attempt.
+ */
+export function startDailyRun(date: string) {
+  const history = loadDailyHistory()
+  const scored = !history[date]
+  if (scored) {
+    history[date] = { score: 0, best: 0, completed: false, duration: 0, maxCombo: 0, practiceRuns: 0 }
+    saveDailyHistory(history)
+  }
+  return { history, scored }
+}
+
+/**
+ * Record a finished daily run - the scored attempt sets the day's score,
+ * practice runs only count toward the day's best.
+ * Returns the updated history.
+ */
+export function recordDailyRun(
+  date: string,
+  run: { score: number; duration: number; maxCombo: number },
+  scored: boolean
+) {
+  const history = loadDailyHistory()
+  const result = history[date] ?? { score: 0, best: 0, completed: false, duration: 0, maxCombo: 0, practiceRuns: 0 }
+
+  history[date] = scored
+    ? { ...result, score: run.score, completed: true, duration: run.duration, maxCombo: run.maxCombo }
+    : { ...result, practiceRuns: result.practiceRuns + 1 }
+  history[date].best = Math.max(result.best, run.score)
+
+  saveDailyHistory(history)
+  return history
+}
+
+/**
+ * How many days in a row the daily challenge has been played, up to and
+ * including today. A streak isn't broken until a whole day goes by, so
+ * playing yesterday but not yet today still counts.
+ */
+export function dailyStreak(history: DailyHistory, today = new Date()) {
+  let day = history[dailyKey(today)] ? today : subDays(today, 1)
+  let streak = 0
+  while (history[dailyKey(day)]) {
+    streak += 1
+    day = subDays(day, 1)
+  }
+  return streak
+}
+
+/**
+ * The calendar days that have a result, as dates (for the history calendar)
+ */
+export function dailyDates(history: DailyHistory, filter: (result: DailyResult) => boolean = () => true) {
+  return Object.entries(history)
+    .filter(([, result]) => filter(result))
+    .map(([date]) => parseISO(date))
+}
@@ -0,0 +1,88 @@
+import { z } from "zod"
+
+import type { DifficultyId } from "@/game/difficulty"
+import type { GameModeId } from "@/game/modes"
+
+// How many entries each table keeps
+export const LEADERBOARD_SIZE = 10
+
+const STORAGE_PREFIX = "apple-catcher:leaderboard"
+const PLAYER_NAME_KEY = "apple-catcher:player-name"
+
+const leaderboardEntrySchema = z.object({
+  name: z.string(),
+  score: z.number(),
+  date: z.string(), // ISO timestamp of when the run ended
+  duration: z.number(), // Length of the run in milliseconds
+  maxCombo: z.number(),
+})
+
+export type LeaderboardEntry = z.infer<typeof leaderboardEntrySchema>
+
+function storageKey(mode: GameModeId, difficulty: DifficultyId) {
+  return `${STORAGE_PREFIX}:${mode}:${difficulty}`
+}
+
+/**
+ * Read the high-score table for a mode and difficulty, best score first.
+ * Missing or corrupted data is treated as an empty table.
+ */
+export function loadLeaderboard(mode: GameModeId, difficulty: DifficultyId): LeaderboardEntry[] {
+  try {
+    const raw = localStorage.getItem(storageKey(mode, difficulty))
+    if (!raw) return []
+    const parsed = z.array(leaderboardEntrySchema).safeParse(JSON.parse(raw))
+    return parsed.success ? parsed.data : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Would this score make it onto the table?
+ */
+export function qualifiesForLeaderboard(mode: GameModeId, difficulty: DifficultyId, score: number) {
+  if (score <= 0) return false
+  const entries = loadLeaderboard(mode, difficulty)
+  return entries.length < LEADERBOARD_SIZE || score > entries[entries.length - 1].score
+}
+
+/**
+ * Insert an entry, keeping the table sorted and trimmed.
+ * Returns the entry's position in the table, or -1 if it didn't make the cut.
+ */
+export function addLeaderboardEntry(mode: GameModeId, difficulty: DifficultyId, entry: LeaderboardEntry) {
+  const entries = loadLeaderboard(mode, difficulty)
+
+  // Ties go below existing entries - the earlier run keeps its place
+  let index = entries.findIndex((existing) => entry.score > existing.score)
+  if (index === -1) index = entries.length
+  if (index >= LEADERBOARD_SIZE) return -1
+
+  entries.splice(index, 0, entry)
+  try {
+    localStorage.setItem(storageKey(mode, difficulty), JSON.stringify(entries.slice(0, LEADERBOARD_SIZE)))
+  } catch {
+    return -1 // Storage is full or disabled
+  }
+  return index
+}
+
+/**
+ * The last name entered in the name prompt, so returning players don't have to retype it
+ */
+export function loadPlayerName() {
+  try {
+    return localStorage.getItem(PLAYER_NAME_KEY) ?? ""
+  } catch {
+    return ""
+  }
+}
+
+export function savePlayerName(name: string) {
+  try {
+    localStorage.setItem(PLAYER_NAME_KEY, name)
+  } catch {
+    // Not being able to remember the name is harmless
+  }
+}
@@ -0,0 +1,159 @@
+import { z } from "zod"
+
+import type { DifficultyConfig } from "@/game/difficulty"
+import { GAME_MODES } from "@/game/modes"
+import { RUN_MODIFIERS } from "@/game/modifiers"
+import { GAME_VERSION, Replay, ReplayInput } from "@/game/replay"
+import { keysOf } from "@/lib/settings"
+
+// Tells replay files apart from any other JSON a player might drop on the start screen
+const REPLAY_FORMAT = "apple-catcher-replay"
+
+// Bump this whenever the file layout changes (GAME_VERSION covers changes to the game itself)
+export const REPLAY_FILE_VERSION = 1
+
+// Longest run a file may hold: three hours at 60 ticks a second. Importing a replay plays
+// it through to check its score, so an endless one (Zen never ends by itself) would hang the page
+const MAX_TICKS = 3 * 60 * 60 * 60
+
+// Zod marks every field of a parsed object optional without strict null checks,
+// so the values are handed over one by one to make a whole DifficultyConfig
+const difficultySchema = z
+  .object({
+    startInterval: z.number().positive(),
+    rampRate: z.number().min(0),
+    minInterval: z.number().positive(),
+    baseFallSpeed: z.number().positive(),
+    speedPerPoint: z.number().min(0),
+    plateSpeed: z.number().positive(),
+    plateWidth: z.number().positive(),
+  })
+  .transform((difficulty): DifficultyConfig => ({
+    startInterval: difficulty.startInterval,
+    rampRate: difficulty.rampRate,
+    minInterval: difficulty.minInterval,
+    baseFallSpeed: difficulty.baseFallSpeed,
+    speedPerPoint: difficulty.speedPerPoint,
+    plateSpeed: difficulty.plateSpeed,
+    plateWidth: difficulty.plateWidth,
+  }))
+
+// One change of input: [ticks since the previous change, axis, dash (0/1), targetX]
+// Storing the gap instead of the tick keeps the numbers (and the file) small
+const inputSchema = z.tuple([
+  z.number().int().min(0),
+  z.number().min(-1).max(1),
+  z.union([z.literal(0), z.literal(1)]),
+  z.number().nullable(),
+])
+
+const replayFileSchema = z.object({
+  format: z.literal(REPLAY_FORMAT),
+  version: z.literal(REPLAY_FILE_VERSION),
+  gameVersion: z.literal(GAME_VERSION),
+  seed: z.string().min(1),
+  mode: z.enum(keysOf(GAME_MODES)),
+  difficulty: difficultySchema, // Before modifiers
+  modifiers: z.array(z.enum(keysOf(RUN_MODIFIERS))),
+  lives: z.number().int().min(0),
+  width: z.number().positive(), // Game size when recorded
+  height: z.number().positive(),
+  ticks: z.number().int().min(0).max(MAX_TICKS, "longer than three hours"),
+  score: z.number().int(), // The score the run claims - checked when the replay is played back
+  inputs: z.array(inputSchema),
+})
+
+type ReplayFile = z.infer<typeof replayFileSchema>
+
+// Just enough of a file to tell which versions made it, before checking the rest
+const versionsSchema = z.object({
+  format: z.literal(REPLAY_FORMAT),
+  version: z.number(),
+  gameVersion: z.number(),
+})
+
+/**
+ * The replay as a file's contents (compact JSON)
+ */
+export function serializeReplay(replay: Replay) {
+  let previousTick = 0
+  const inputs = replay.inputs.map(([tick, axis, dash, targetX]): ReplayFile["inputs"][number] => {
+    const gap = tick - previousTick
+    previousTick = tick
+    return [gap, axis, dash, targetX]
+  })
+  const file: ReplayFile = {
+    format: REPLAY_FORMAT,
+    version: REPLAY_FILE_VERSION,
+    gameVersion: GAME_VERSION,
+    ...replay,
+    inputs,
+  }
+  return JSON.stringify(file)
+}
+
+/**
+ * Read a replay file. Returns the replay, or a message saying what's wrong
+ * with the file that can be shown to the player as is.
+ */
+export function parseReplay(text: string): { replay: Replay } | { error: string } {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return { error: "This file isn't a replay - it couldn't be read as JSON." }
+  }
+
+  // Check the versions first, so an old or new file gets a better message than a list of missing fields
+  const versions = versionsSchema.safeParse(data)
+  if (!versions.success) return { error: "This file isn't an Apple Catcher replay." }
+  const { version, gameVersion } = versions.data
+  if (version > REPLAY_FILE_VERSION || gameVersion > GAME_VERSION) {
+    return { error: "This replay was made with a newer version of the game. Update the game to watch it." }
+  }
+  if (version < REPLAY_FILE_VERSION || gameVersion < GAME_VERSION) {
+    return { error: "This replay was made with an older version of the game, which played differently, so it can't be watched." }
+  }
+
+  const parsed = replayFileSchema.safeParse(data)
+  if (!parsed.success) {
+    const [issue] = parsed.error.issues
+    const field = issue.path.length > 0 ? `${issue.path.join(".")}: ` : ""
+    return { error: `This replay file is damaged (${field}${issue.message}).` }
+  }
+
+  // Turn the gaps back into ticks
+  const file = parsed.data
+  let tick = 0
+  const inputs = file.inputs.map(([gap, axis, dash, targetX]): ReplayInput => {
+    tick += gap
+    return [tick, axis, dash, targetX]
+  })
+  return {
+    replay: {
+      seed: file.seed,
+      mode: file.mode,
+      difficulty: file.difficulty,
+      modifiers: file.modifiers,
+      lives: file.lives,
+      width: file.width,
+      height: file.height,
+      ticks: file.ticks,
+      score: file.score,
+      inputs,
+    },
+  }
+}
+
+/**
+ * Save a replay as a file, through the browser's download
+ */
+export function downloadReplay(replay: Replay) {
+  const blob = new Blob([serializeReplay(replay)], { type: "application/json" })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = `apple-catcher-${replay.mode}-${replay.seed}-${replay.score}.replay.json`
+  link.click()
+  URL.revokeObjectURL(url)
+}
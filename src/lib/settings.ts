@@ -0,0 +1,162 @@
+import { z } from "zod"
+
+import { CONTROL_SCHEME_LABELS } from "@/game/controls"
+import { DEFAULT_DIFFICULTY, DIFFICULTY_PRESETS } from "@/game/difficulty"
+import {
+  DEFAULT_KEY_BINDINGS,
+  findConflicts,
+  INPUT_ACTION_LABELS,
+  keyName,
+  KeyBindings,
+  MAX_KEYS_PER_ACTION,
+} from "@/game/input"
+import { PALETTES } from "@/game/palettes"
+
+const STORAGE_KEY = "apple-catcher:settings"
+
+// Before settings were versioned, only the audio settings were saved, under their own key
+const LEGACY_AUDIO_KEY = "apple-catcher:audio"
+
+// Bump this and add a migration below whenever the stored shape changes
+export const SETTINGS_VERSION = 2
+
+// The keys of a label/preset record, as a tuple z.enum() accepts
+export function keysOf<T extends string>(record: Record<T, unknown>) {
+  return Object.keys(record) as [T, ...T[]]
+}
+
+// Volumes run from 0 (silent) to 1 (full). Music and effects are scaled by the master volume.
+const audioSettingsSchema = z.object({
+  master: z.number().min(0).max(1),
+  music: z.number().min(0).max(1),
+  sfx: z.number().min(0).max(1),
+  muted: z.boolean(),
+})
+
+// Up to MAX_KEYS_PER_ACTION key codes per action, and no key doing two things at once
+const keyListSchema = z.array(z.string()).max(MAX_KEYS_PER_ACTION)
+
+const keyBindingsSchema = z
+  .object({
+    moveLeft: keyListSchema,
+    moveRight: keyListSchema,
+    pause: keyListSchema,
+    dash: keyListSchema,
+    restart: keyListSchema,
+  })
+  .superRefine((bindings: KeyBindings, ctx) => {
+    findConflicts(bindings).forEach((actions, code) => {
+      actions.forEach((action) => {
+        const others = actions.filter((other) => other !== action).map((other) => INPUT_ACTION_LABELS[other])
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [action],
+          message: `${keyName(code)} is also bound to ${others.join(", ")}`,
+        })
+      })
+    })
+  }) as z.ZodType<KeyBindings>
+
+export const settingsSchema = z.object({
+  controlScheme: z.enum(keysOf(CONTROL_SCHEME_LABELS)),
+  keyBindings: keyBindingsSchema,
+  audio: audioSettingsSchema,
+  defaultDifficulty: z.enum(keysOf(DIFFICULTY_PRESETS)),
+  reducedMotion: z.boolean(), // No screen shake, flashes or bouncing
+  palette: z.enum(keysOf(PALETTES)),
+  showFps: z.boolean(),
+})
+
+export type AudioSettings = z.infer<typeof audioSettingsSchema>
+export type GameSettings = z.infer<typeof settingsSchema>
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  master: 0.8,
+  music: 0.5,
+  sfx: 0.8,
+  muted: false,
+}
+
+/**
+ * The settings a new player starts with.
+ * Reduced motion follows the operating system's accessibility setting.
+ */
+export function defaultSettings(): GameSettings {
+  return {
+    controlScheme: "auto",
+    keyBindings: DEFAULT_KEY_BINDINGS,
+    audio: DEFAULT_AUDIO_SETTINGS,
+    defaultDifficulty: DEFAULT_DIFFICULTY,
+    reducedMotion: window.matchMedia?.("(prefers-reduced-motion: reduce)").matches ?? false,
+    palette: "classic",
+    showFps: false,
+  }
+}
+
+type StoredSettings = Record<string, unknown>
+
+// MIGRATIONS[n] upgrades stored settings from version n to version n + 1
+const MIGRATIONS: Record<number, (stored: StoredSettings) => StoredSettings> = {
+  // Version 0 was the bare audio settings object
+  0: (stored) => ({ audio: stored }),
+  // Version 1 had a movement key preset instead of per-action key bindings
+  1: ({ keyBindings, ...stored }) => {
+    const left = keyBindings === "wasd" ? ["KeyA"] : keyBindings === "both" ? ["ArrowLeft", "KeyA"] : ["ArrowLeft"]
+    const right = keyBindings === "wasd" ? ["KeyD"] : keyBindings === "both" ? ["ArrowRight", "KeyD"] : ["ArrowRight"]
+    return { ...stored, keyBindings: { ...DEFAULT_KEY_BINDINGS, moveLeft: left, moveRight: right } }
+  },
+}
+
+/**
+ * Bring stored settings up to the current version, one migration at a time.
+ * Fields that are missing (or that a newer version of the game added) are
+ * filled in from the defaults; anything invalid resets everything to the defaults.
+ */
+export function migrateSettings(stored: StoredSettings, version: number): GameSettings {
+  let current = stored
+  for (let from = version; from < SETTINGS_VERSION; from++) {
+    current = MIGRATIONS[from]?.(current) ?? current
+  }
+
+  const defaults = defaultSettings()
+  const parsed = settingsSchema.safeParse({
+    ...defaults,
+    ...current,
+    audio: { ...defaults.audio, ...(current.audio as object) },
+    keyBindings: { ...defaults.keyBindings, ...(current.keyBindings as object) },
+  })
+  return parsed.success ? parsed.data : defaults
+}
+
+/**
+ * Read the saved settings, migrating older formats.
+ * Missing or corrupted data falls back to the defaults.
+ */
+export function loadSettings(): GameSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (raw) {
+      const { version, ...stored } = JSON.parse(raw)
+      return migrateSettings(stored, typeof version === "number" ? version : 0)
+    }
+
+    const legacyAudio = localStorage.getItem(LEGACY_AUDIO_KEY)
+    if (legacyAudio) {
+      const settings = migrateSettings(JSON.parse(legacyAudio), 0)
+      saveSettings(settings)
+      localStorage.removeItem(LEGACY_AUDIO_KEY)
+      return settings
+    }
+  } catch {
+    // Fall through to the defaults
+  }
+  return defaultSettings()
+}
+
+export function saveSettings(settings: GameSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: SETTINGS_VERSION, ...settings }))
+  } catch {
+    // Settings just won't survive a reload
+  }
+}
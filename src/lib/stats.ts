@@ -0,0 +1,119 @@
+import { z } from "zod"
+
+import { DIFFICULTY_LABELS } from "@/game/difficulty"
+import { HEATMAP_COLUMNS } from "@/game/engine"
+import { GAME_MODES } from "@/game/modes"
+import { keysOf } from "@/lib/settings"
+
+const STORAGE_KEY = "apple-catcher:stats"
+
+// How many runs are kept - the oldest are dropped first
+export const STATS_HISTORY_SIZE = 500
+
+const runStatsSchema = z.object({
+  date: z.string(), // ISO timestamp of when the run ended
+  mode: z.enum(keysOf(GAME_MODES)),
+  difficulty: z.enum(keysOf(DIFFICULTY_LABELS)), // 'custom' for hand-tuned runs
+  daily: z.boolean(), // Was it a daily challenge run?
+  score: z.number(),
+  duration: z.number(), // Length of the run in milliseconds
+  caught: z.number(),
+  neededCaught: z.number().optional(), // Catches of items that cost a life when missed (not kept by older versions)
+  missed: z.number(),
+  maxCombo: z.number(),
+  peakFallSpeed: z.number(), // Pixels per second
+  catchHeatmap: z.array(z.number()), // Catches per column of the game, left to right
+})
+
+export type RunStats = z.infer<typeof runStatsSchema>
+
+/**
+ * Read every recorded run, oldest first. Missing or corrupted data is treated as no runs.
+ */
+export function loadRunStats(): RunStats[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return []
+    const parsed = z.array(runStatsSchema).safeParse(JSON.parse(raw))
+    return parsed.success ? (parsed.data as RunStats[]) : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Add a finished run, dropping the oldest runs past STATS_HISTORY_SIZE.
+ * Returns the updated runs.
+ */
+export function recordRunStats(run: RunStats) {
+  const runs = [...loadRunStats(), run].slice(-STATS_HISTORY_SIZE)
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(runs))
+  } catch {
+    // Storage is full or disabled - the run still shows on the game over screen
+  }
+  return runs
+}
+
+/**
+ * Forget every recorded run
+ */
+export function clearRunStats() {
+  try {
+    localStorage.removeItem(STORAGE_KEY)
+  } catch {
+    // Nothing was stored
+  }
+}
+
+/**
+ * Share of the items a run needed that were caught, from 0 to 1. Only items that
+ * cost a life when missed count: catching a bomb or a power-up doesn't make a run
+ * more accurate. Null when none were caught or missed, or the run is too old to say.
+ */
+export function runAccuracy(run: Pick<RunStats, "neededCaught" | "missed">) {
+  if (run.neededCaught === undefined) return null
+  const total = run.neededCaught + run.missed
+  return total > 0 ? run.neededCaught / total : null
+}
+
+/**
+ * How many runs fall in each tenth of accuracy (0-9%, 10-19%... 90-100%).
+ * Runs without an accuracy are left out.
+ */
+export function accuracyDistribution(runs: RunStats[]) {
+  const buckets = Array.from({ length: 10 }, (_, i) => ({
+    range: i === 9 ? "90-100%" : `${i * 10}-${i * 10 + 9}%`,
+    runs: 0,
+  }))
+  runs.forEach((run) => {
+    const accuracy = runAccuracy(run)
+    if (accuracy !== null) buckets[Math.min(9, Math.floor(accuracy * 10))].runs += 1
+  })
+  return buckets
+}
+
+/**
+ * The best run of each mode and difficulty that has been played, in the modes'
+ * and difficulties' usual order. Daily challenge runs are left out - their
+ * modifiers make them incomparable (the daily history has them).
+ */
+export function bestRuns(runs: RunStats[]) {
+  return keysOf(GAME_MODES).flatMap((mode) => keysOf(DIFFICULTY_LABELS).flatMap((difficulty) => {
+    const best = runs
+      .filter((run) => !run.daily && run.mode === mode && run.difficulty === difficulty)
+      .reduce<RunStats | null>((top, run) => (!top || run.score > top.score ? run : top), null)
+    return best ? [best] : []
+  }))
+}
+
+/**
+ * Catches per column of the game over every run, left to right
+ */
+export function combinedHeatmap(runs: RunStats[]) {
+  const columns: number[] = new Array(HEATMAP_COLUMNS).fill(0)
+  runs.forEach((run) => run.catchHeatmap.forEach((count, i) => {
+    if (i < HEATMAP_COLUMNS) columns[i] += count
+  }))
+  return columns
+}
@@ -0,0 +1,7 @@
+import AchievementsGallery from "@/components/AchievementsGallery";
+
+const Achievements = () => {
+  return <AchievementsGallery />;
+};
+
+export default Achievements;
@@ -0,0 +1,7 @@
+import StatsDashboard from "@/components/StatsDashboard";
+
+const Stats = () => {
+  return <StatsDashboard />;
+};
+
+export default Stats;